@@ -1,11 +1,17 @@
 import { Request } from 'express';
 
 import { IUser } from '../models/user.model';
+import { Permission } from '../utils/permissions';
 
 declare global {
   namespace Express {
     interface Request {
       user?: IUser;
+      // the id of the request, see requestLogger
+      id?: string;
+      rawBody?: Buffer;
+      sessionId?: string;
+      permissions?: Permission[];
     }
   }
 }
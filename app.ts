@@ -1,26 +1,54 @@
-require('dotenv').config();
 import express, { NextFunction, Request, Response } from 'express';
 import cors from 'cors';
 import cookieParser from 'cookie-parser';
 
+import { config } from './utils/config';
 import ErrorMiddleware from './middleware/error';
+import { requestLogger } from './middleware/requestLogger';
+import { collectMetrics } from './middleware/metrics';
 import userRouter from './routes/user.routes';
 import courseRouter from './routes/course.routes';
 import orderRouter from './routes/order.routes';
 import notificationRouter from './routes/notification.routes';
 import analyticsRouter from './routes/analytics.routes';
 import layoutRouter from './routes/layout.routes';
+import certificateRouter from './routes/certificate.routes';
+import couponRouter from './routes/coupon.routes';
+import sessionRouter from './routes/session.routes';
+import twoFactorRouter from './routes/twoFactor.routes';
+import roleRouter from './routes/role.routes';
+import categoryRouter from './routes/category.routes';
+import exportRouter from './routes/export.routes';
+import auditRouter from './routes/audit.routes';
+import healthRouter from './routes/health.routes';
 
 export const app = express();
 
-// body parser
-app.use(express.json({ limit: '50mb' }));
+// behind load balancers, so the login throttling sees each client's own ip
+app.set('trust proxy', config.trustProxy);
+
+// request ids, request logs and metrics
+app.use(requestLogger);
+app.use(collectMetrics);
+
+// probes and metrics, outside of the api
+app.use(healthRouter);
+
+// body parser, keeping the raw body to verify payment webhook signatures
+app.use(
+  express.json({
+    limit: '50mb',
+    verify: (req: Request, res: Response, buf: Buffer) => {
+      req.rawBody = buf;
+    }
+  })
+);
 // cookie parser
 app.use(cookieParser());
 // cors
 app.use(
   cors({
-    origin: process.env.ORIGIN
+    origin: config.origin
   })
 );
 
@@ -30,6 +58,14 @@ app.use('/api/v1/orders/', orderRouter)
 app.use('/api/v1/notifications', notificationRouter);
 app.use('/api/v1/analytics', analyticsRouter);
 app.use('/api/v1/layouts', layoutRouter);
+app.use('/api/v1/certificates', certificateRouter);
+app.use('/api/v1/coupons', couponRouter);
+app.use('/api/v1/sessions', sessionRouter);
+app.use('/api/v1/2fa', twoFactorRouter);
+app.use('/api/v1/roles', roleRouter);
+app.use('/api/v1/categories', categoryRouter);
+app.use('/api/v1/exports', exportRouter);
+app.use('/api/v1/audit-logs', auditRouter);
 
 // unknown route middleware
 app.all('*', (req: Request, res: Response, next: NextFunction) => {
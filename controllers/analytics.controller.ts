@@ -5,6 +5,7 @@ import { generateLast12MonthsData } from "../utils/analytics.generator";
 import User from "../models/user.model";
 import Order from "../models/order.model";
 import Course from "../models/course.model";
+import CourseService from "../services/course.service";
 
 /**
  * @description Get user analytics for the last 12 months
@@ -32,14 +33,14 @@ export const getUserAnalytics = catchAsyncErrors(async (req: Request, res: Respo
       users
     })
   } catch (error: any) {
-    return next(new ErrorHandler(`Error processing user analytics: ${error.message}`, error.statusCode || 500));
+    return next(error);
   }
 })
 
 /**
- * @description Get order analytics for the last 12 months
+ * @description Get order analytics for the last 12 months, only of their own courses for instructors
  * @route GET /analytics/orders
- * @access Private (admin)
+ * @access Private (admin, instructor)
  *
  * @param {Object} req - Express request object
  * @param {Object} res - Express response object
@@ -55,21 +56,25 @@ export const getUserAnalytics = catchAsyncErrors(async (req: Request, res: Respo
  */
 export const getOrderAnalytics = catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const orders = await generateLast12MonthsData(Order)
+    const filter = req.permissions?.includes('course:manage')
+      ? {}
+      : { courseId: { $in: await CourseService.getOwnedCourseIds(req.user?._id) } }
+
+    const orders = await generateLast12MonthsData(Order, filter)
 
     res.status(200).json({
       success: true,
       orders
     })
   } catch (error: any) {
-    return next(new ErrorHandler(`Error processing order analytics: ${error.message}`, error.statusCode || 500));
+    return next(error);
   }
 })
 
 /**
- * @description Get course analytics for the last 12 months
+ * @description Get course analytics for the last 12 months, only of their own courses for instructors
  * @route GET /analytics/courses
- * @access Private (admin)
+ * @access Private (admin, instructor)
  *
  * @param {Object} req - Express request object
  * @param {Object} res - Express response object
@@ -85,13 +90,15 @@ export const getOrderAnalytics = catchAsyncErrors(async (req: Request, res: Resp
  */
 export const getCourseAnalytics = catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const courses = await generateLast12MonthsData(Course)
+    const filter = req.permissions?.includes('course:manage') ? {} : { owners: req.user?._id }
+
+    const courses = await generateLast12MonthsData(Course, filter)
 
     res.status(200).json({
       success: true,
       courses
     })
   } catch (error: any) {
-    return next(new ErrorHandler(`Error processing course analytics: ${error.message}`, error.statusCode || 500));
+    return next(error);
   }
 })
\ No newline at end of file
@@ -0,0 +1,34 @@
+import { Request, Response, NextFunction } from 'express';
+
+import catchAsyncErrors from '../middleware/catchAsyncErrors';
+import AuditService, { auditLogListOptions } from '../services/audit.service';
+import { parseListQuery } from '../utils/listQuery';
+
+/**
+ * @description Get a page of the audit log of admin changes, newest first by default
+ * @route GET /api/v1/audit-logs
+ * @access Private (audit:read)
+ *
+ * @param {Object} query - page, limit, sort (createdAt) and filters on actorId, action, resourceType,
+ * resourceId and createdAt e.g ?resourceType=course&resourceId=<id>
+ *
+ * @returns {Object} Response JSON with the page of audit logs and the pagination
+ * @throws {Error} If a query parameter is invalid (HTTP status code 422)
+ */
+export const index = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { items: auditLogs, pagination } = await AuditService.getAuditLogs(
+        parseListQuery(req.query, auditLogListOptions)
+      );
+
+      res.status(200).json({
+        success: true,
+        auditLogs,
+        pagination
+      });
+    } catch (error: any) {
+      return next(error);
+    }
+  }
+);
@@ -0,0 +1,184 @@
+import { Request, Response, NextFunction } from 'express';
+
+import catchAsyncErrors from '../middleware/catchAsyncErrors';
+import CategoryService from '../services/category.service';
+import AuditService from '../services/audit.service';
+import CourseService from '../services/course.service';
+import { parsePagination } from '../utils/listQuery';
+import {
+  ICreateCategoryBody,
+  IUpdateCategoryBody
+} from '../schemas/category.schema';
+
+/**
+ * @description Get the category tree, subcategories nested under their parent
+ * @route GET /api/v1/categories
+ * @access Public
+ *
+ * @returns {Object} Response JSON with the top-level categories and their children
+ * @throws {Error} If an internal server error occurs during processing
+ */
+export const index = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const categories = await CategoryService.getCategoryTree();
+
+      res.status(200).json({
+        success: true,
+        categories
+      });
+    } catch (error: any) {
+      return next(error);
+    }
+  }
+);
+
+/**
+ * @description Get the published courses of a category and of its subcategories
+ * @route GET /api/v1/categories/:slug/courses
+ * @access Public
+ *
+ * @param {string} slug - The slug of the category
+ * @param {Object} query - The query string
+ * @param {number} [query.page] - The page, from 1
+ * @param {number} [query.limit] - The number of courses per page, 20 by default and at most 100
+ *
+ * @returns {Object} Response JSON with the category, the page of courses and the pagination
+ * @throws {Error} If the category is not found (HTTP status code 404)
+ * @throws {Error} If the page or limit is invalid (HTTP status code 422)
+ */
+export const courses = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { page, limit } = parsePagination(req.query);
+
+      const category = await CategoryService.getCategory(req.params.slug);
+
+      const { courses, pagination } = await CourseService.searchCourses({
+        categories: await CategoryService.getDescendantIds(category._id),
+        page,
+        limit
+      });
+
+      res.status(200).json({
+        success: true,
+        category,
+        courses,
+        pagination
+      });
+    } catch (error: any) {
+      return next(error);
+    }
+  }
+);
+
+/**
+ * @description Create a category, optionally nested under a parent category
+ * @route POST /api/v1/categories
+ * @access Private (category:write)
+ *
+ * @param {Object} body - The category name, slug, description and parent id
+ *
+ * @returns {Object} Response JSON with the created category
+ * @throws {Error} If a category with the same slug exists (HTTP status code 409)
+ * @throws {Error} If the name, slug or parent is invalid (HTTP status code 422)
+ */
+export const create = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { name, slug, description, parent } = req.body as ICreateCategoryBody;
+
+      const category = await CategoryService.createCategory({
+        name,
+        slug,
+        description,
+        parent
+      });
+
+      await AuditService.record(
+        req,
+        'category.create',
+        { type: 'category', id: category._id.toString() },
+        { slug: category.slug }
+      );
+
+      res.status(201).json({
+        success: true,
+        category
+      });
+    } catch (error: any) {
+      return next(error);
+    }
+  }
+);
+
+/**
+ * @description Update a category, moving it under another parent or to the top level with a null parent
+ * @route PUT /api/v1/categories/:slug
+ * @access Private (category:write)
+ *
+ * @param {Object} body - The category name, slug, description and parent id
+ *
+ * @returns {Object} Response JSON with the updated category
+ * @throws {Error} If the category is not found (HTTP status code 404)
+ * @throws {Error} If a category with the same slug exists (HTTP status code 409)
+ * @throws {Error} If the name, slug or parent is invalid (HTTP status code 422)
+ */
+export const update = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { name, slug, description, parent } = req.body as IUpdateCategoryBody;
+
+      const category = await CategoryService.updateCategory(req.params.slug, {
+        name,
+        slug,
+        description,
+        parent
+      });
+
+      await AuditService.record(
+        req,
+        'category.update',
+        { type: 'category', id: category._id.toString() },
+        { fields: Object.keys(req.body) }
+      );
+
+      res.status(200).json({
+        success: true,
+        category
+      });
+    } catch (error: any) {
+      return next(error);
+    }
+  }
+);
+
+/**
+ * @description Delete a category without courses or subcategories
+ * @route DELETE /api/v1/categories/:slug
+ * @access Private (category:write)
+ *
+ * @throws {Error} If the category is not found (HTTP status code 404)
+ * @throws {Error} If courses or subcategories are still in the category (HTTP status code 409)
+ */
+export const destroy = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const category = await CategoryService.deleteCategory(req.params.slug);
+
+      await AuditService.record(
+        req,
+        'category.delete',
+        { type: 'category', id: category._id.toString() },
+        { slug: category.slug }
+      );
+
+      res.status(204).json({
+        success: true,
+        message: 'Category deleted successfully'
+      });
+    } catch (error: any) {
+      return next(error);
+    }
+  }
+);
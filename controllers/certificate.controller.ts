@@ -0,0 +1,41 @@
+import { Request, Response, NextFunction } from 'express';
+
+import catchAsyncErrors from '../middleware/catchAsyncErrors';
+import CertificateService from '../services/certificate.service';
+
+/**
+ * @description Verify that a certificate of completion is genuine
+ * @route GET /api/v1/certificates/:serial
+ * @access Public
+ *
+ * @param {string} serial - The serial printed on the certificate
+ *
+ * @returns {Object} Response JSON with the certificate details
+ * - valid (boolean): Indicates that the certificate is genuine
+ * - certificate (Object): The student name, course name and completion date
+ * @throws {Error} If no certificate has the given serial (HTTP status code 404)
+ */
+export const verifyCertificate = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { serial } = req.params;
+
+      const certificate = await CertificateService.getCertificateBySerial(
+        serial
+      );
+
+      res.status(200).json({
+        success: true,
+        valid: true,
+        certificate: {
+          serial: certificate.serial,
+          studentName: certificate.studentName,
+          courseName: certificate.courseName,
+          completedAt: certificate.completedAt
+        }
+      });
+    } catch (error: any) {
+      return next(error);
+    }
+  }
+);
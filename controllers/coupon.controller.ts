@@ -0,0 +1,179 @@
+import { Request, Response, NextFunction } from 'express';
+
+import catchAsyncErrors from '../middleware/catchAsyncErrors';
+import ErrorHandler from '../utils/ErrorHandler';
+import Coupon, { ICoupon } from '../models/coupon.model';
+import AuditService from '../services/audit.service';
+
+// fields an admin is allowed to set on a coupon
+const couponFields: (keyof ICoupon)[] = [
+  'code',
+  'type',
+  'value',
+  'courseId',
+  'expiresAt',
+  'maxRedemptions',
+  'perUserLimit',
+  'isActive'
+];
+
+const pickCouponFields = (body: any) =>
+  couponFields.reduce((data, field) => {
+    if (body[field] !== undefined) data[field] = body[field];
+    return data;
+  }, {} as { [key: string]: any });
+
+/**
+ * @description Get all coupons sorted by createdAt
+ * @route GET /api/v1/coupons
+ * @access Private (admin)
+ *
+ * @returns {Object} Response JSON with the list of coupons
+ * @throws {Error} If an internal server error occurs during processing
+ */
+export const index = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const coupons = await Coupon.find().sort({ createdAt: -1 });
+
+      res.status(200).json({
+        success: true,
+        nbHits: coupons.length,
+        coupons
+      });
+    } catch (error: any) {
+      return next(error);
+    }
+  }
+);
+
+/**
+ * @description Get a coupon by id
+ * @route GET /api/v1/coupons/:id
+ * @access Private (admin)
+ *
+ * @returns {Object} Response JSON with the coupon
+ * @throws {Error} If the coupon is not found (HTTP status code 404)
+ */
+export const show = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const coupon = await Coupon.findById(req.params.id);
+
+      if (!coupon) return next(new ErrorHandler('Coupon not found', 404));
+
+      res.status(200).json({
+        success: true,
+        coupon
+      });
+    } catch (error: any) {
+      return next(error);
+    }
+  }
+);
+
+/**
+ * @description Create a percentage or fixed amount coupon, for a single course or site-wide
+ * @route POST /api/v1/coupons
+ * @access Private (admin)
+ *
+ * @param {Object} body - The coupon code, type, value, courseId, expiresAt, maxRedemptions and perUserLimit
+ *
+ * @returns {Object} Response JSON with the created coupon
+ * @throws {Error} If the coupon code already exists (HTTP status code 409)
+ */
+export const create = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const coupon = await Coupon.create(pickCouponFields(req.body));
+
+      await AuditService.record(
+        req,
+        'coupon.create',
+        { type: 'coupon', id: coupon._id.toString() },
+        { code: coupon.code }
+      );
+
+      res.status(201).json({
+        success: true,
+        coupon
+      });
+    } catch (error: any) {
+      if (error.code === 11000) return next(error);
+
+      return next(error);
+    }
+  }
+);
+
+/**
+ * @description Update a coupon
+ * @route PUT /api/v1/coupons/:id
+ * @access Private (admin)
+ *
+ * @returns {Object} Response JSON with the updated coupon
+ * @throws {Error} If the coupon is not found (HTTP status code 404)
+ */
+export const update = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const coupon = await Coupon.findById(req.params.id);
+
+      if (!coupon) return next(new ErrorHandler('Coupon not found', 404));
+
+      const data = pickCouponFields(req.body);
+
+      coupon.set(data);
+      await coupon.save();
+
+      await AuditService.record(
+        req,
+        'coupon.update',
+        { type: 'coupon', id: coupon._id.toString() },
+        { code: coupon.code, fields: Object.keys(data) }
+      );
+
+      res.status(200).json({
+        success: true,
+        coupon
+      });
+    } catch (error: any) {
+      if (error.code === 11000) return next(error);
+
+      return next(error);
+    }
+  }
+);
+
+/**
+ * @description Delete a coupon
+ * @route DELETE /api/v1/coupons/:id
+ * @access Private (admin)
+ *
+ * @throws {Error} If the coupon is not found (HTTP status code 404)
+ */
+export const destroy = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const coupon = await Coupon.findById(req.params.id);
+
+      if (!coupon) return next(new ErrorHandler('Coupon not found', 404));
+
+      await coupon.deleteOne();
+
+      await AuditService.record(
+        req,
+        'coupon.delete',
+        { type: 'coupon', id: coupon._id.toString() },
+        { code: coupon.code }
+      );
+
+      res.status(204).json({
+        success: true,
+        message: 'Coupon deleted successfully'
+      });
+    } catch (error: any) {
+      return next(error);
+    }
+  }
+);
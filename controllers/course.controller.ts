@@ -3,26 +3,52 @@ import { Request, Response, NextFunction } from 'express';
 import catchAsyncErrors from '../middleware/catchAsyncErrors';
 import ErrorHandler from '../utils/ErrorHandler';
 import { cloudinary } from '../server';
-import CourseService from '../services/course.service';
+import CourseService, { courseListOptions } from '../services/course.service';
+import { parseListQuery } from '../utils/listQuery';
 import Course from '../models/course.model';
 import { redis } from '../utils/redis';
+import { courseCacheReads } from '../utils/metrics';
 import sendMail from '../utils/sendMail';
 import Notification from '../models/notification';
+import ProgressService from '../services/progress.service';
+import CertificateService from '../services/certificate.service';
+import CurriculumService from '../services/curriculum.service';
+import CategoryService from '../services/category.service';
+import AuditService from '../services/audit.service';
+import {
+  IAddAnswerData,
+  IAddQuestionData,
+  IAddReviewData,
+  IReviewReplyBody,
+  ISearchQuery,
+  IUpdateProgressData,
+  IUpdateStatusBody
+} from '../schemas/course.schema';
+
+// fields only changed through the publishing workflow
+const workflowFields = ['status', 'publishAt', 'publishedAt'];
 
 /**
- * @description Create a new course
+ * @description Create a new draft course. Instructors become the owner of the courses they create.
  * @route POST /courses
- * @access Private (admin)
+ * @access Private (admin, instructor)
  *
  * @param {Object} body - The request body containing course details
+ * @param {string[]} [body.owners] - The ids of the course instructors, only set with the course:manage permission
+ * @param {string[]} [body.categories] - The ids of the course categories
  *
  * @returns {Object} Response JSON with the created course details
+ * @throws {Error} If a category does not exist (HTTP status code 422)
  * @throws {Error} If an error occurs during course creation or thumbnail upload
  */
 export const create = catchAsyncErrors(
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const data = req.body;
+
+      if (data.categories !== undefined)
+        await CategoryService.assertCategoriesExist(data.categories);
+
       const thumbnail = data.thumbnail;
       if (thumbnail) {
         const uploaded = await cloudinary.uploader.upload(thumbnail, {
@@ -34,9 +60,16 @@ export const create = catchAsyncErrors(
           url: uploaded.secure_url
         };
       }
+
+      // only course managers can choose the owners of a course
+      if (!req.permissions?.includes('course:manage') || !Array.isArray(data.owners))
+        data.owners = [req.user?._id];
+
+      workflowFields.forEach((field) => delete data[field]);
+
       CourseService.createCourse(data, res, next);
     } catch (error: any) {
-      return next(new ErrorHandler(error.message, 500));
+      return next(error);
     }
   }
 );
@@ -44,7 +77,7 @@ export const create = catchAsyncErrors(
 /**
  * @description Update an existing course
  * @route PUT /courses/:id
- * @access Private (admin)
+ * @access Private (admin, course instructor)
  *
  * @param {Object} data - The request body containing updated course details
  * @param {string} id - The id of the course to be updated
@@ -58,6 +91,14 @@ export const update = catchAsyncErrors(
       const data = req.body;
       const { id } = req.params;
 
+      if (data.categories !== undefined)
+        await CategoryService.assertCategoriesExist(data.categories);
+
+      // only course managers can change the owners of a course
+      if (!req.permissions?.includes('course:manage')) delete data.owners;
+
+      workflowFields.forEach((field) => delete data[field]);
+
       const thumbnail = data?.thumbnail || '';
 
       if (thumbnail) {
@@ -81,24 +122,103 @@ export const update = catchAsyncErrors(
         { new: true }
       );
 
+      // file the lessons of a resubmitted courseData into the sections
+      if (course && data.courseData) await course.save();
+
+      await CourseService.clearCache(id);
+
+      if (course)
+        await AuditService.record(
+          req,
+          'course.update',
+          { type: 'course', id },
+          { fields: Object.keys(data) }
+        );
+
+      res.status(200).json({
+        success: true,
+        course
+      });
+    } catch (error: any) {
+      return next(error);
+    }
+  }
+);
+
+/**
+ * @description Move a course through the publishing workflow: draft, in_review, published and archived.
+ * Instructors submit their drafts for review, publishing and archiving need the course:publish permission.
+ * @route PUT /courses/:id/status
+ * @access Private (admin, course instructor)
+ *
+ * @param {string} id - The id of the course
+ * @param {Object} body - The request body
+ * @param {string} body.status - The new status of the course
+ * @param {string} [body.publishAt] - When publishing, the date to release the course at
+ *
+ * @returns {Object} Response JSON with the updated course
+ * @throws {Error} If publishing or archiving without the course:publish permission (HTTP status code 403)
+ * @throws {Error} If the course is not found (HTTP status code 404)
+ * @throws {Error} If the course can't move to the status (HTTP status code 422)
+ */
+export const updateStatus = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { status, publishAt } = req.body as IUpdateStatusBody;
+
+      const course = await CourseService.updateCourseStatus(
+        req.params.id,
+        status,
+        req.permissions || [],
+        publishAt
+      );
+
       res.status(200).json({
         success: true,
         course
       });
     } catch (error: any) {
-      return next(new ErrorHandler(error.message, 500));
+      return next(error);
     }
   }
 );
 
 /**
- * @description Get details of a specific course
+ * @description Preview a course whatever its status, including drafts
+ * @route GET /courses/:id/preview
+ * @access Private (admin, course instructor)
+ *
+ * @param {string} id - The id of the course
+ *
+ * @returns {Object} Response JSON with the full course details
+ * @throws {Error} If the course is not found (HTTP status code 404)
+ */
+export const preview = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const course = await Course.findById(req.params.id);
+
+      if (!course) return next(new ErrorHandler('Course not found', 404));
+
+      res.status(200).json({
+        success: true,
+        course
+      });
+    } catch (error: any) {
+      return next(error);
+    }
+  }
+);
+
+/**
+ * @description Get details of a specific published course
  * @route GET /courses/:id
  * @access Public
  *
  * @param {string} id - The id of the course to be retrieved
  *
- * @returns {Object} Response JSON with the course details
+ * @returns {Object} Response JSON with the course details and its outline of sections, lessons and durations
+ * @throws {Error} If the course is not found or not published (HTTP status code 404)
  * @throws {Error} If an error occurs during course retrieval from cache, MongoDB, or JSON parsing
  */
 export const show = catchAsyncErrors(
@@ -108,10 +228,14 @@ export const show = catchAsyncErrors(
 
       const cachedData = await redis.get(id);
 
+      courseCacheReads.inc({ result: cachedData ? 'hit' : 'miss' });
+
       // if course isn't cached, fetch from mongodb and cache it
       if (!cachedData) {
         const course = await fetchAndCacheCourse(id);
 
+        if (!course) return next(new ErrorHandler('Course not found', 404));
+
         return res.status(200).json({
           success: true,
           course
@@ -126,13 +250,13 @@ export const show = catchAsyncErrors(
         course
       });
     } catch (error: any) {
-      return next(new ErrorHandler(error.message, 500));
+      return next(error);
     }
   }
 );
 
 /**
- * @description Get details of all courses
+ * @description Get details of all published courses
  * @route GET /courses
  * @access Public
  *
@@ -144,6 +268,8 @@ export const index = catchAsyncErrors(
     try {
       const cachedData = await redis.get('allCourses');
 
+      courseCacheReads.inc({ result: cachedData ? 'hit' : 'miss' });
+
       if (!cachedData) {
         const courses = await fetchAndCacheCourse();
 
@@ -160,44 +286,114 @@ export const index = catchAsyncErrors(
         courses
       });
     } catch (error: any) {
-      return next(new ErrorHandler(error.message, 500));
+      return next(error);
     }
   }
 );
 
 /**
- * @description Fetches course data from MongoDB and caches it in Redis based on the provided ID or caches all courses if no ID is provided.
+ * @description Search the published courses
+ * @route GET /courses/search
+ * @access Public
+ *
+ * @param {Object} query - The query string
+ * @param {string} [query.q] - Text searched in the name, tags and description
+ * @param {string} [query.level] - Only courses of this level
+ * @param {string} [query.category] - Only courses in this category or its subcategories, by slug or id
+ * @param {number} [query.minPrice] - Only courses costing at least this price
+ * @param {number} [query.maxPrice] - Only courses costing at most this price
+ * @param {number} [query.minRating] - Only courses rated at least this
+ * @param {string} [query.sort] - newest, popular, rating, price_asc or price_desc, by relevance for text searches by default
+ * @param {number} [query.page] - The page, from 1
+ * @param {number} [query.limit] - The number of courses per page, 20 by default and at most 100
+ *
+ * @returns {Object} Response JSON with the page of courses, the pagination and the facet counts
+ * @throws {Error} If the category is not found (HTTP status code 404)
+ * @throws {Error} If a query parameter is invalid (HTTP status code 422)
+ */
+export const search = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const {
+        q,
+        level,
+        category,
+        minPrice,
+        maxPrice,
+        minRating,
+        sort,
+        page = 1,
+        limit = 20
+      } = req.query as ISearchQuery;
+
+      // a category also matches the courses of its subcategories
+      const categories = category
+        ? await CategoryService.getDescendantIds(
+            (await CategoryService.getCategory(category))._id
+          )
+        : undefined;
+
+      const result = await CourseService.searchCourses({
+        q: q || undefined,
+        level,
+        categories,
+        minPrice,
+        maxPrice,
+        minRating,
+        sort,
+        page,
+        limit
+      });
+
+      res.status(200).json({
+        success: true,
+        ...result
+      });
+    } catch (error: any) {
+      return next(error);
+    }
+  }
+);
+
+/**
+ * @description Fetches published course data from MongoDB and caches it in Redis based on the provided ID or caches all courses if no ID is provided.
  * @param {string} id - The ID of the specific course to fetch. If not provided, fetches all courses.
  * @returns {Promise<Course | Course[]>} - Fetched course or courses
  */
 async function fetchAndCacheCourse(id: string = '') {
   if (id) {
-    const course = await Course.findById(id).select(
+    const course = await Course.findOne({ _id: id, status: 'published' }).select(
       '-courseData.videoUrl -courseData.suggestion -courseData.questions -courseData.links'
     );
 
-    await redis.set(id, JSON.stringify(course), 'EX', 259200); // 3 days
+    if (!course) return null;
+
+    const courseWithOutline = CurriculumService.withOutline(course);
+
+    await redis.set(id, JSON.stringify(courseWithOutline), 'EX', 259200); // 3 days
 
-    return course;
+    return courseWithOutline;
   }
 
-  const courses = await Course.find().select(
+  const courses = await Course.find({ status: 'published' }).select(
     '-courseData.videoUrl -courseData.suggestion -courseData.questions -courseData.links'
   );
 
-  await redis.set('allCourses', JSON.stringify(courses));
+  const coursesWithOutline = courses.map(CurriculumService.withOutline);
 
-  return courses;
+  await redis.set('allCourses', JSON.stringify(coursesWithOutline));
+
+  return coursesWithOutline;
 }
 
 /**
- * @description Get content of a course bought by the authenticated user
+ * @description Get content of a course bought by the authenticated user, even once the course is archived
  * @route GET /courses/:id/content
  * @access Private
  *
  * @param {string} id - The ID of the course to retrive, provided as a route parameter
  *
- * @returns {Object} Response JSON with the content details of the bought course
+ * @returns {Object} Response JSON with the content details of the bought course and the user's progress
  * @throws {Error} If the course is not found, the user hasn't bought the course, or an internal server error occurs
  */
 export const getCourseBoughtByUser = catchAsyncErrors(
@@ -213,32 +409,145 @@ export const getCourseBoughtByUser = catchAsyncErrors(
 
       if (!userHasBoughtCourse) {
         return next(
-          new ErrorHandler('You do not have access to this course', 403)
+          new ErrorHandler('You do not have access to this course', 403, {
+            code: 'course_not_purchased'
+          })
         );
       }
 
       const course = await Course.findById(courseId);
-      const content = course?.courseData;
+
+      if (!course) return next(new ErrorHandler('Course not found', 404));
+
+      const content = course.courseData;
+      const progress = await ProgressService.getCourseProgress(
+        req.user?._id,
+        course
+      );
 
       res.status(200).json({
         success: true,
-        content
+        content,
+        progress
       });
     } catch (error: any) {
-      return next(
-        new ErrorHandler(
-          `Error while processing getCourseBoughtByUser: ${error.message}`,
-          500
-        )
+      return next(error);
+    }
+  }
+);
+
+/**
+ * @description Get the authenticated user's progress in a bought course
+ * @route GET /courses/:id/progress
+ * @access Private
+ *
+ * @param {string} id - The ID of the course, provided as a route parameter
+ *
+ * @returns {Object} Response JSON with the completed lessons and completion percentage
+ * @throws {Error} If the course is not found, the user hasn't bought the course, or an internal server error occurs
+ */
+export const getCourseProgress = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const courseId = req.params.id;
+
+      const userHasBoughtCourse = req.user?.courses?.find(
+        (course) => course.courseId === courseId
+      );
+
+      if (!userHasBoughtCourse) {
+        return next(
+          new ErrorHandler('You do not have access to this course', 403, {
+            code: 'course_not_purchased'
+          })
+        );
+      }
+
+      const course = await Course.findById(courseId);
+
+      if (!course) return next(new ErrorHandler('Course not found', 404));
+
+      const progress = await ProgressService.getCourseProgress(
+        req.user?._id,
+        course
       );
+
+      res.status(200).json({
+        success: true,
+        progress
+      });
+    } catch (error: any) {
+      return next(error);
     }
   }
 );
 
-interface IAddQuestionData {
-  question: string;
-  contentId: string;
-}
+/**
+ * @description Mark a course content item as complete and/or save its last playback position
+ * @route PUT /courses/:id/progress
+ * @access Private
+ *
+ * @param {string} id - The ID of the course, provided as a route parameter
+ * @param {Object} body - The request body containing the progress details
+ * @param {string} body.contentId - The ID of the course content being watched
+ * @param {boolean} [body.completed] - Whether the content has been completed
+ * @param {number} [body.position] - The last playback position, capped at the content's videoLength
+ *
+ * @returns {Object} Response JSON with the updated course progress, and the certificate once the course is completed
+ * @throws {Error} If the course or content is not found, the user hasn't bought the course, or an internal server error occurs
+ */
+export const updateCourseProgress = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const courseId = req.params.id;
+      const { contentId, completed, position }: IUpdateProgressData = req.body;
+
+      if (!contentId)
+        return next(new ErrorHandler('Please provide a contentId', 422));
+
+      const userHasBoughtCourse = req.user?.courses?.find(
+        (course) => course.courseId === courseId
+      );
+
+      if (!userHasBoughtCourse) {
+        return next(
+          new ErrorHandler('You do not have access to this course', 403, {
+            code: 'course_not_purchased'
+          })
+        );
+      }
+
+      const course = await Course.findById(courseId);
+
+      if (!course) return next(new ErrorHandler('Course not found', 404));
+
+      const progress = await ProgressService.updateLessonProgress(
+        req.user?._id,
+        course,
+        contentId,
+        { completed, position }
+      );
+
+      // issue a certificate once every lesson of the course has been completed
+      const certificate =
+        progress.completedAt && req.user
+          ? await CertificateService.issueCertificate(
+              req.user,
+              course,
+              progress.completedAt
+            )
+          : undefined;
+
+      res.status(200).json({
+        success: true,
+        progress,
+        certificate
+      });
+    } catch (error: any) {
+      return next(error);
+    }
+  }
+);
 
 /**
  * @description Add a new question to a specific course content
@@ -279,6 +588,7 @@ export const addQuestion = catchAsyncErrors(
 
       await Notification.create({
         userId: req.user?._id,
+        courseId,
         title: 'New Question Received',
         message: `A student just asked a question on "${courseContent.title}" in your "${course?.name}" course.`,
       });
@@ -290,21 +600,11 @@ export const addQuestion = catchAsyncErrors(
         course
       });
     } catch (error: any) {
-      return next(
-        new ErrorHandler(
-          `Error while processing addQuestion: ${error.message}`,
-          500
-        )
-      );
+      return next(error);
     }
   }
 );
 
-interface IAddAnswerData {
-  answer: string;
-  contentId: string;
-}
-
 /**
  * @description Add a new answer to a specific question in a course
  * @route POST /courses/:courseId/questions/:questionId/answers
@@ -351,29 +651,18 @@ export const addAnswer = catchAsyncErrors(
 
       await course?.save();
 
-      handleNotifications(req, question, courseContent);
+      handleNotifications(req, question, courseContent, courseId);
 
       res.status(201).json({
         success: true,
         course
       });
     } catch (error: any) {
-      return next(
-        new ErrorHandler(
-          `Error while processing addAnswer: ${error.message}`,
-          500
-        )
-      );
+      return next(error);
     }
   }
 );
 
-interface IAddReviewData {
-  review: string;
-  rating: number;
-  userId: string;
-}
-
 /**
  * @description Add a new review to a specific course
  * @route POST /api/courses/:id/reviews
@@ -401,7 +690,9 @@ export const addReview = catchAsyncErrors(
 
       if (!userHasBoughtCourse) {
         return next(
-          new ErrorHandler('You do not have access to this course', 403)
+          new ErrorHandler('You do not have access to this course', 403, {
+            code: 'course_not_purchased'
+          })
         );
       }
 
@@ -429,35 +720,27 @@ export const addReview = catchAsyncErrors(
 
       course?.save();
 
-      const notification = {
+      await Notification.create({
+        userId: req.user?._id,
+        courseId,
         title: 'New Review Received',
         message: `${req.user?.name} has given a review in ${course?.name}`
-      };
-
-      // TODO: Create notification
+      });
 
       res.status(201).json({
         success: true,
         course
       });
     } catch (error: any) {
-      return next(
-        new ErrorHandler(
-          `Error while processing addReview: ${error.message}`,
-          500
-        )
-      );
+      return next(error);
     }
   }
 );
 
-interface IReviewReplyBody {
-  comment: string;
-}
 /**
  * @description Add a reply to a specific review in a course
  * @route POST /api/courses/:courseId/reviews/:reviewId/replies
- * @access Private('admin')
+ * @access Private('admin', course instructor)
  *
  * @param {string} courseId - The ID of the course containing the review
  * @param {string} reviewId - The ID of the review to which the reply will be added
@@ -499,12 +782,7 @@ export const addRepliesToReview = catchAsyncErrors(
         course
       });
     } catch (error: any) {
-      return next(
-        new ErrorHandler(
-          `Error while processing addRepliesToReview: ${error.message}`,
-          500
-        )
-      );
+      return next(error);
     }
   }
 );
@@ -512,12 +790,14 @@ export const addRepliesToReview = catchAsyncErrors(
 const handleNotifications = async (
   req: Request,
   question: any,
-  courseContent: any
+  courseContent: any,
+  courseId: string
 ) => {
   // if the logged-in-user is the question's author
   if (req.user?._id === question.user._id) {
-    // notify the admin of a new question
+    // notify the admin and course instructors of a new question
     await Notification.create({
+      courseId,
       title: 'New Question Reply Recieved',
       message: `You have a new reply in ${courseContent.title}`
     })
@@ -542,18 +822,24 @@ const handleNotifications = async (
 };
 
 /**
- * @description Get all courses
+ * @description Get a page of all courses whatever their status, or only their own courses for instructors
  * @route GET /all
- * @access Private (admin)
+ * @access Private (admin, instructor)
  * 
- * @returns {Object} Response JSON with the courses details and success status
+ * @param {Object} query - page, limit, sort (createdAt, name, price, ratings, purchased) and filters
+ * on status, level, categories, price, ratings, purchased and createdAt
+ *
+ * @returns {Object} Response JSON with the page of courses and the pagination
+ * @throws {Error} If a query parameter is invalid (HTTP status code 422)
  * @throws {Error} If an internal server error occurs
  */
 export const fetchAllCourses = catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
   try {
-    CourseService.getAllCourses(res);
+    const filter = req.permissions?.includes('course:manage') ? {} : { owners: req.user?._id };
+
+    await CourseService.getAllCourses(res, parseListQuery(req.query, courseListOptions), filter);
   } catch (error: any) {
-    return next(new ErrorHandler(`Error processing index function ${error.message}`, 500))
+    return next(error)
   }
 })
 
@@ -561,13 +847,15 @@ export const destroy = catchAsyncErrors(async (req: Request, res: Response, next
   try {
     const id = req.params.id;
 
-    await CourseService.deleteCourseById(id);
+    const course = await CourseService.deleteCourseById(id);
+
+    await AuditService.record(req, 'course.delete', { type: 'course', id }, { name: course.name })
 
     res.status(204).json({
       success: true,
       message: 'Course deleted successfully'
     })
   } catch (error: any) {
-    return next(new ErrorHandler(`Error processing destroy action: ${error.message}`, error.statusCode || 500))
+    return next(error)
   }
 })
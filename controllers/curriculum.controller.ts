@@ -0,0 +1,265 @@
+import { Request, Response, NextFunction } from 'express';
+
+import catchAsyncErrors from '../middleware/catchAsyncErrors';
+import CurriculumService from '../services/curriculum.service';
+import {
+  IAddLessonBody,
+  IAddSectionBody,
+  IMoveLessonBody
+} from '../schemas/course.schema';
+
+/**
+ * @description Add a section to a course
+ * @route POST /courses/:id/sections
+ * @access Private (admin, course instructor)
+ *
+ * @param {string} id - The id of the course
+ * @param {Object} body - The request body
+ * @param {string} body.title - The section title
+ * @param {number} [body.position] - Where to insert the section, at the end by default
+ *
+ * @returns {Object} Response JSON with the updated course outline
+ * @throws {Error} If the course is not found (HTTP status code 404)
+ */
+export const addSection = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { title, position } = req.body as IAddSectionBody;
+
+      const course = await CurriculumService.addSection(req.params.id, title, position);
+
+      res.status(201).json({
+        success: true,
+        outline: CurriculumService.getOutline(course)
+      });
+    } catch (error: any) {
+      return next(error);
+    }
+  }
+);
+
+/**
+ * @description Rename a section, which also renames the videoSection of its lessons
+ * @route PUT /courses/:id/sections/:sectionId
+ * @access Private (admin, course instructor)
+ *
+ * @param {string} id - The id of the course
+ * @param {Object} body - The request body
+ * @param {string} body.title - The new section title
+ *
+ * @returns {Object} Response JSON with the updated course outline
+ * @throws {Error} If the course is not found (HTTP status code 404)
+ * @throws {Error} If the section is not found (HTTP status code 404)
+ */
+export const updateSection = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const course = await CurriculumService.renameSection(
+        req.params.id,
+        req.params.sectionId,
+        req.body.title
+      );
+
+      res.status(200).json({
+        success: true,
+        outline: CurriculumService.getOutline(course)
+      });
+    } catch (error: any) {
+      return next(error);
+    }
+  }
+);
+
+/**
+ * @description Reorder the sections of a course
+ * @route PUT /courses/:id/sections/order
+ * @access Private (admin, course instructor)
+ *
+ * @param {string} id - The id of the course
+ * @param {Object} body - The request body
+ * @param {string[]} body.sectionIds - The ids of every section of the course in the new order
+ *
+ * @returns {Object} Response JSON with the updated course outline
+ * @throws {Error} If the course is not found (HTTP status code 404)
+ * @throws {Error} If the ids are not the ids of the course sections (HTTP status code 422)
+ */
+export const reorderSections = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const course = await CurriculumService.reorderSections(
+        req.params.id,
+        req.body.sectionIds
+      );
+
+      res.status(200).json({
+        success: true,
+        outline: CurriculumService.getOutline(course)
+      });
+    } catch (error: any) {
+      return next(error);
+    }
+  }
+);
+
+/**
+ * @description Delete an empty section
+ * @route DELETE /courses/:id/sections/:sectionId
+ * @access Private (admin, course instructor)
+ *
+ * @param {string} id - The id of the course
+ *
+ * @returns {Object} Response JSON with the updated course outline
+ * @throws {Error} If the course is not found (HTTP status code 404)
+ * @throws {Error} If the section is not found (HTTP status code 404)
+ * @throws {Error} If the section still has lessons (HTTP status code 409)
+ */
+export const deleteSection = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const course = await CurriculumService.deleteSection(
+        req.params.id,
+        req.params.sectionId
+      );
+
+      res.status(200).json({
+        success: true,
+        outline: CurriculumService.getOutline(course)
+      });
+    } catch (error: any) {
+      return next(error);
+    }
+  }
+);
+
+/**
+ * @description Add a lesson to a section
+ * @route POST /courses/:id/sections/:sectionId/lessons
+ * @access Private (admin, course instructor)
+ *
+ * @param {string} id - The id of the course
+ * @param {Object} body - The lesson title, description, videoUrl, videoThumbnail, videoLength, videoPlayer, links and suggestion
+ * @param {number} [body.position] - Where to insert the lesson in the section, at the end by default
+ *
+ * @returns {Object} Response JSON with the updated course outline
+ * @throws {Error} If the course is not found (HTTP status code 404)
+ * @throws {Error} If the section is not found (HTTP status code 404)
+ */
+export const addLesson = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { position, ...lesson } = req.body as IAddLessonBody;
+
+      const course = await CurriculumService.addLesson(
+        req.params.id,
+        req.params.sectionId,
+        lesson,
+        position
+      );
+
+      res.status(201).json({
+        success: true,
+        outline: CurriculumService.getOutline(course)
+      });
+    } catch (error: any) {
+      return next(error);
+    }
+  }
+);
+
+/**
+ * @description Reorder the lessons of a section
+ * @route PUT /courses/:id/sections/:sectionId/lessons/order
+ * @access Private (admin, course instructor)
+ *
+ * @param {string} id - The id of the course
+ * @param {Object} body - The request body
+ * @param {string[]} body.lessonIds - The ids of every lesson of the section in the new order
+ *
+ * @returns {Object} Response JSON with the updated course outline
+ * @throws {Error} If the course is not found (HTTP status code 404)
+ * @throws {Error} If the section is not found (HTTP status code 404)
+ * @throws {Error} If the ids are not the ids of the section lessons (HTTP status code 422)
+ */
+export const reorderLessons = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const course = await CurriculumService.reorderLessons(
+        req.params.id,
+        req.params.sectionId,
+        req.body.lessonIds
+      );
+
+      res.status(200).json({
+        success: true,
+        outline: CurriculumService.getOutline(course)
+      });
+    } catch (error: any) {
+      return next(error);
+    }
+  }
+);
+
+/**
+ * @description Move a lesson to another position or section
+ * @route PUT /courses/:id/lessons/:lessonId/move
+ * @access Private (admin, course instructor)
+ *
+ * @param {string} id - The id of the course
+ * @param {Object} body - The request body
+ * @param {string} body.sectionId - The section to move the lesson to
+ * @param {number} [body.position] - Where to insert the lesson in the section, at the end by default
+ *
+ * @returns {Object} Response JSON with the updated course outline
+ * @throws {Error} If the course is not found (HTTP status code 404)
+ * @throws {Error} If the lesson or the section is not found (HTTP status code 404)
+ */
+export const moveLesson = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { sectionId, position } = req.body as IMoveLessonBody;
+
+      const course = await CurriculumService.moveLesson(
+        req.params.id,
+        req.params.lessonId,
+        sectionId,
+        position
+      );
+
+      res.status(200).json({
+        success: true,
+        outline: CurriculumService.getOutline(course)
+      });
+    } catch (error: any) {
+      return next(error);
+    }
+  }
+);
+
+/**
+ * @description Delete a lesson
+ * @route DELETE /courses/:id/lessons/:lessonId
+ * @access Private (admin, course instructor)
+ *
+ * @param {string} id - The id of the course
+ *
+ * @returns {Object} Response JSON with the updated course outline
+ * @throws {Error} If the course is not found (HTTP status code 404)
+ * @throws {Error} If the lesson is not found (HTTP status code 404)
+ */
+export const deleteLesson = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const course = await CurriculumService.deleteLesson(
+        req.params.id,
+        req.params.lessonId
+      );
+
+      res.status(200).json({
+        success: true,
+        outline: CurriculumService.getOutline(course)
+      });
+    } catch (error: any) {
+      return next(error);
+    }
+  }
+);
@@ -0,0 +1,73 @@
+import { Request, Response, NextFunction } from 'express';
+
+import catchAsyncErrors from '../middleware/catchAsyncErrors';
+import ExportService from '../services/export.service';
+import { IExportQuery } from '../schemas/common.schema';
+import { parseListQuery } from '../utils/listQuery';
+
+const exportHandler = (resource: string) =>
+  catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      // exports are not paginated, the filters and sort are kept
+      const { format = 'csv', columns, page, limit, ...query } = req.query as IExportQuery;
+
+      await ExportService.exportCollection(
+        res,
+        resource,
+        parseListQuery(query, ExportService.getListOptions(resource)),
+        format,
+        columns ? columns.split(',').map((column) => column.trim()) : undefined
+      );
+    } catch (error: any) {
+      // the export can't be turned into an error response once it started streaming
+      if (res.headersSent) return res.destroy(error);
+
+      return next(error);
+    }
+  });
+
+/**
+ * @description Download users as CSV or NDJSON, streamed from the database
+ * @route GET /api/v1/exports/users
+ * @access Private (user:read)
+ *
+ * @param {Object} query - The query string
+ * @param {string} [query.format] - csv (default) or ndjson
+ * @param {string} [query.columns] - Comma separated columns among id, name, email, role, isVerified,
+ * twoFactorEnabled, courses, lockedUntil and createdAt, all by default
+ * @param {Object} [query.filters] - The filters and sort of the user listing, e.g createdAt[gte]=2024-01-01
+ *
+ * @throws {Error} If the format, a column or a filter is invalid (HTTP status code 422)
+ */
+export const exportUsers = exportHandler('users');
+
+/**
+ * @description Download orders with their course name and buyer email as CSV or NDJSON, streamed from the database
+ * @route GET /api/v1/exports/orders
+ * @access Private (order:read)
+ *
+ * @param {Object} query - The query string
+ * @param {string} [query.format] - csv (default) or ndjson
+ * @param {string} [query.columns] - Comma separated columns among id, status, amount, discount, currency,
+ * coupon, provider, providerReference, refundedAmount, refundedAt, courseId, courseName, userId, buyerName,
+ * buyerEmail and createdAt, all by default
+ * @param {Object} [query.filters] - The filters and sort of the order listing, e.g status=paid&createdAt[lt]=2024-02-01
+ *
+ * @throws {Error} If the format, a column or a filter is invalid (HTTP status code 422)
+ */
+export const exportOrders = exportHandler('orders');
+
+/**
+ * @description Download courses as CSV or NDJSON, streamed from the database
+ * @route GET /api/v1/exports/courses
+ * @access Private (course:manage)
+ *
+ * @param {Object} query - The query string
+ * @param {string} [query.format] - csv (default) or ndjson
+ * @param {string} [query.columns] - Comma separated columns among id, name, status, level, price,
+ * estimatedPrice, purchased, ratings, reviews, lessons, categories, owners, publishedAt and createdAt, all by default
+ * @param {Object} [query.filters] - The filters and sort of the course listing, e.g status=published
+ *
+ * @throws {Error} If the format, a column or a filter is invalid (HTTP status code 422)
+ */
+export const exportCourses = exportHandler('courses');
@@ -0,0 +1,53 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+
+import { pingRedis, redis } from '../utils/redis';
+import { renderMetrics } from '../utils/metrics';
+
+/**
+ * @description Liveness probe, the process is up and serving requests
+ * @route GET /healthz
+ * @access Public
+ *
+ * @returns {Object} Response JSON with the status and the uptime in seconds
+ */
+export const healthz = (req: Request, res: Response) => {
+  res.status(200).json({
+    status: 'ok',
+    uptime: process.uptime()
+  });
+};
+
+/**
+ * @description Readiness probe, the instance can serve traffic: mongodb is connected and redis answers a PING
+ * @route GET /readyz
+ * @access Public
+ *
+ * @returns {Object} Response JSON with the status of each check, HTTP status code 503 if one fails
+ */
+export const readyz = async (req: Request, res: Response) => {
+  const checks = {
+    mongo: mongoose.connection.readyState === mongoose.ConnectionStates.connected,
+    redis: redis.status === 'ready' && (await pingRedis())
+  };
+
+  const ready = Object.values(checks).every(Boolean);
+
+  res.status(ready ? 200 : 503).json({
+    status: ready ? 'ready' : 'not_ready',
+    checks: {
+      mongo: checks.mongo ? 'up' : 'down',
+      redis: checks.redis ? 'up' : 'down'
+    }
+  });
+};
+
+/**
+ * @description Request counts and latencies per route, the course cache hit ratio and email sends,
+ * in the Prometheus text format
+ * @route GET /metrics
+ * @access Private (metrics scraper, with the METRICS_TOKEN bearer token)
+ */
+export const metrics = (req: Request, res: Response) => {
+  res.status(200).type('text/plain; version=0.0.4').send(renderMetrics());
+};
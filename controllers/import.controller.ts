@@ -0,0 +1,65 @@
+import { Request, Response, NextFunction } from 'express';
+
+import catchAsyncErrors from '../middleware/catchAsyncErrors';
+import ErrorHandler from '../utils/ErrorHandler';
+import ImportService from '../services/import.service';
+import { IImportQuery } from '../schemas/course.schema';
+
+/**
+ * @description Create or update courses from a manifest, keyed by their externalId so a manifest can be
+ * imported again to update its courses. Every field of every row is checked before anything is written.
+ * @route POST /courses/import
+ * @access Private (course:manage)
+ *
+ * @param {Object|string} body - A JSON manifest, a list of courses or { courses: [...] }, each with its sections
+ * and their lessons and links. Or, sent as text/csv, one row per lesson with the columns externalId, name,
+ * description, price, estimatedPrice, tags, level, demoUrl, benefits, prerequisites, categories, section,
+ * lessonExternalId, lessonTitle, lessonDescription, videoUrl, videoLength, videoPlayer, suggestion and links,
+ * lists being separated by ';' and links written 'title|url'
+ * @param {string} [query.dryRun] - 'true' to validate the manifest and report what the import would do
+ *
+ * @returns {Object} Response JSON with the action taken on each course: created, updated or unchanged
+ * @throws {Error} If the manifest is invalid, with an error for each invalid field and its row (HTTP status code 422)
+ */
+export const importCourses = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { dryRun = false } = req.query as IImportQuery;
+
+      const manifest = req.is('text/csv')
+        ? ImportService.parseCsvManifest(typeof req.body === 'string' ? req.body : '')
+        : ImportService.parseJsonManifest(req.body);
+
+      if (!manifest.courses.length && !manifest.errors.length)
+        return next(new ErrorHandler('The manifest has no courses', 422));
+
+      const { errors, results } = await ImportService.importCourses(
+        manifest,
+        req.user?._id,
+        dryRun
+      );
+
+      if (errors.length)
+        return next(
+          new ErrorHandler(
+            `The manifest has ${errors.length} error(s), no course was imported`,
+            422,
+            { details: errors }
+          )
+        );
+
+      res.status(dryRun ? 200 : 201).json({
+        success: true,
+        dryRun,
+        summary: {
+          created: results.filter(({ action }) => action === 'created').length,
+          updated: results.filter(({ action }) => action === 'updated').length,
+          unchanged: results.filter(({ action }) => action === 'unchanged').length
+        },
+        courses: results
+      });
+    } catch (error: any) {
+      return next(error);
+    }
+  }
+);
@@ -4,6 +4,9 @@ import catchAsyncErrors from '../middleware/catchAsyncErrors';
 import ErrorHandler from '../utils/ErrorHandler';
 import { cloudinary } from '../server';
 import Layout from '../models/layout.model';
+import CategoryService from '../services/category.service';
+import AuditService from '../services/audit.service';
+import { ICreateLayoutBody, ILayoutQuery } from '../schemas/layout.schema';
 
 /**
  * @description Create a new layout or update an existing one based on the specified type.
@@ -15,22 +18,26 @@ import Layout from '../models/layout.model';
  * @param {Object} next - Express NextFunction for error handling.
  *
  * @returns {Object} Response JSON indicating the success of the operation.
+ * @throws {ErrorHandler} If the type is missing or the banner or faq data is invalid (HTTP status code 422)
  * @throws {ErrorHandler} If an error occurs during layout creation or update.
  */
 export const createLayout = catchAsyncErrors(
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { type }: { type: string } = req.body;
+      const body = req.body as ICreateLayoutBody;
+      const { type } = body;
 
-      // Validate request body
-      if (!type || !['banner', 'faq', 'categories'].includes(type))
-        return next(new ErrorHandler(`Invalid or missing layout type`, 422));
+      // the categories layout is derived from the category taxonomy
+      if (type === 'categories')
+        return next(
+          new ErrorHandler('Categories are managed at /api/v1/categories', 422)
+        );
 
       // Find layout by type
       const layout: any = await Layout.findOne({ type });
 
-      if (type === 'banner') {
-        const { image, title, subtitle } = req.body;
+      if (body.type === 'banner') {
+        const { image, title, subtitle } = body;
 
         if (layout) {
           await cloudinary.uploader.destroy(layout.banner.image.public_id)
@@ -51,11 +58,11 @@ export const createLayout = catchAsyncErrors(
 
         if (layout) {
           layout.banner = banner;
-        } else await Layout.create({ type: 'Banner', banner });
+        } else await Layout.create({ type, banner });
       }
 
-      if (type === 'faq' || type === 'categories') {
-        const { data } = req.body;
+      if (body.type === 'faq') {
+        const { data } = body;
 
         if (layout) {
           // append new data to the existing array for the specified type e.g faq, categories, banner
@@ -63,25 +70,26 @@ export const createLayout = catchAsyncErrors(
         } else await Layout.create({ type, [type]: data });
       }
 
-      await layout.save();
+      await layout?.save();
+
+      await AuditService.record(req, layout ? 'layout.update' : 'layout.create', {
+        type: 'layout',
+        id: type
+      });
 
       res.status(201).json({
         success: true,
         message: 'Layout created successfully'
       });
     } catch (error: any) {
-      return next(
-        new ErrorHandler(
-          `Error processing create layout: ${error.message}`,
-          error.statusCode || 500
-        )
-      );
+      return next(error);
     }
   }
 );
 
 /**
  * @description Retrieve a layout based on the specified type from the database.
+ * The categories layout is built from the category taxonomy.
  * @route GET /api/v1/layouts?type={type}
  * @access Public
  *
@@ -90,22 +98,35 @@ export const createLayout = catchAsyncErrors(
  * @param {Object} next - Express NextFunction for error handling.
  *
  * @returns {Object} Response JSON with the retrieved layout details.
+ * @throws {ErrorHandler} If the type is not banner, faq or categories (HTTP status code 422)
  * @throws {ErrorHandler} If an error occurs during the retrieval process.
  */
-interface QueryParams {
-  type: string;
-}
-
 export const getLayoutByType = catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { type }: QueryParams = req.query as any;
-    const layout = await Layout.findOne({ type: type.toLowerCase() });
+    const { type } = req.query as ILayoutQuery;
+
+    if (type === 'categories') {
+      const categories = await CategoryService.getCategoryTree();
+
+      return res.status(200).json({
+        success: true,
+        layout: {
+          type: 'categories',
+          categories: categories.map((category) => ({
+            ...category,
+            title: category.name
+          }))
+        }
+      });
+    }
+
+    const layout = await Layout.findOne({ type });
 
     res.status(200).json({
       success: true,
       layout
     });
   } catch (error: any) {
-    return next(new ErrorHandler(`Error processing get layout by type: ${error.message}`, error.statusCode || 500));
+    return next(error);
   }
 });
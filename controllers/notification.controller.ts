@@ -4,40 +4,59 @@ import cron from 'node-cron';
 import catchAsyncErrors from '../middleware/catchAsyncErrors'
 import Notification from '../models/notification'
 import ErrorHandler from '../utils/ErrorHandler'
+import CourseService from '../services/course.service'
+import { IListOptions, paginate, parseListQuery } from '../utils/listQuery'
+
+const notificationListOptions: IListOptions = {
+  filters: { status: 'string', courseId: 'string', createdAt: 'date' },
+  sorts: ['createdAt']
+}
+
+// course managers see every notification, instructors only those about their own courses
+const notificationScope = async (req: Request) =>
+  req.permissions?.includes('course:manage')
+    ? {}
+    : { courseId: { $in: await CourseService.getOwnedCourseIds(req.user?._id) } }
 
 /**
- * @description Get a list of notifications sorted by creation date
+ * @description Get a page of notifications, newest first by default
  * @route GET /api/notifications
- * @access Private (admin)
+ * @access Private (admin, instructor)
  * 
- * @returns {Object} Response JSON with the list of notifications
+ * @param {Object} query - page, limit, sort (createdAt) and filters on status, courseId and createdAt
+ *
+ * @returns {Object} Response JSON with the page of notifications and the pagination
+ * @throws {Error} If a query parameter is invalid (HTTP status code 422)
  * @throws {Error} If an internal server error occurs during processing
  */
 export const getNotifications = catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const notifications = await Notification.find().sort({createdAt: -1})
+    const listQuery = parseListQuery(req.query, notificationListOptions)
+    const { items: notifications, pagination } = await paginate(Notification, listQuery, await notificationScope(req))
 
-    res.status(200).json({ success: true, notifications })
+    res.status(200).json({ success: true, notifications, pagination })
   } catch (error: any) {
-    return next(new ErrorHandler(`Error processing get notifcations ${error.message}`, 500))
+    return next(error)
   }
 })
 
 /**
  * @description Mark a specific notification as read
  * @route PUT /api/notifications/:id/mark-as-read
- * @access Private (admin)
+ * @access Private (admin, instructor)
  * 
  * @param {string} id - The ID of the notification to mark as read
  * 
- * @returns {Object} Response JSON with the list of notifications after marking as read
+ * @returns {Object} Response JSON with the first page of notifications after marking as read
  * @throws {Error} If notification is not found, or an internal server error occurs
  */
 export const markAsRead = catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
 
-    const notification = await Notification.findById(id);
+    const scope = await notificationScope(req);
+
+    const notification = await Notification.findOne({ _id: id, ...scope });
 
     if (!notification) return next(new ErrorHandler('notification not found', 404))
 
@@ -45,14 +64,19 @@ export const markAsRead = catchAsyncErrors(async (req: Request, res: Response, n
 
     await notification.save();
 
-    const notifications = await Notification.find().sort({ createdAt: -1 })
+    const { items: notifications, pagination } = await paginate(
+      Notification,
+      parseListQuery({}, notificationListOptions),
+      scope
+    )
 
     res.status(201).json({
       success: true,
-      notifications
+      notifications,
+      pagination
     })
   } catch (error: any) {
-    return next(new ErrorHandler(`Error processing markAsRead ${error.message}`, 500))
+    return next(error)
   }
 })
 
@@ -1,36 +1,46 @@
 import { Request, Response, NextFunction } from 'express';
 import catchAsyncErrors from '../middleware/catchAsyncErrors';
 import ErrorHandler from '../utils/ErrorHandler';
-import { IOrder } from '../models/order.model';
+import Order from '../models/order.model';
 import User from '../models/user.model';
 import Course from '../models/course.model';
-import sendMail from '../utils/sendMail';
-import Notification from '../models/notification';
-import OrderService from '../services/order.service';
+import OrderService, { orderListOptions } from '../services/order.service';
+import CouponService from '../services/coupon.service';
+import AuditService from '../services/audit.service';
+import { paymentProvider } from '../utils/payment';
+import { parseListQuery } from '../utils/listQuery';
+import {
+  ICreateOrderBody,
+  IRefundBody,
+  IRefundRequestBody,
+  IReviewRefundRequestBody
+} from '../schemas/order.schema';
 
 /**
- * @description Get all orders
+ * @description Get a page of orders, newest first by default
  * @route GET /orders
  * @access Private (admin)
  *
- * @param {Object} req - Express request object
+ * @param {Object} req - Express request object, its query holding page, limit, sort (createdAt, amount)
+ * and filters on status, provider, currency, courseId, userId, coupon, refundRequest.status, amount and createdAt
  * @param {Object} res - Express response object
  * @param {Function} next - Express next middleware function
  *
+ * @throws {Error} If a query parameter is invalid (HTTP status code 422)
  * @throws {Error} If the request to get all orders fails (HTTP status code 500)
  *
- * @returns {Object} JSON response with the list of orders
+ * @returns {Object} JSON response with the page of orders and the pagination
  */
 export const index = catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
   try {
-    await OrderService.getAllOrders(res);
+    await OrderService.getAllOrders(res, parseListQuery(req.query, orderListOptions));
   } catch (error: any) {
-    return next(new ErrorHandler(`Error processing index function: ${error.message}`, 500))
+    return next(error)
   }
 })
 
 /**
- * @description Create a new order for a course
+ * @description Create a new pending order for a course and start its payment
  * @route POST /orders
  * @access Private
  *
@@ -40,80 +50,296 @@ export const index = catchAsyncErrors(async (req: Request, res: Response, next:
  *
  * @throws {Error} If the user has already purchased the course (HTTP status code 409)
  * @throws {Error} If the specified course does not exist (HTTP status code 404)
+ * @throws {Error} If the coupon code is invalid, expired or used up (HTTP status code 404 or 422)
  * @throws {Error} If an error occurs during order creation or processing (HTTP status code 500)
  *
- * @returns {Object} JSON response with information about the created order
+ * @returns {Object} JSON response with the pending order
+ * - order (Object): The pending order, confirmed later by the payment webhook
+ * - clientSecret (string): Secret used by the frontend to complete the payment with the provider
  */
 export const create = catchAsyncErrors(
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { courseId, payment_info } = req.body as IOrder;
+      const { courseId, couponCode } = req.body as ICreateOrderBody;
 
       const user = await User.findById(req.user?._id);
 
-      const userHasBoughtCourse = user?.courses.find(
-        (course: any) => course._id.equals(courseId)
+      if (!user) return next(new ErrorHandler('User not found', 404));
+
+      const userHasBoughtCourse = user.courses.find(
+        (course) => course.courseId === courseId
       );
 
       if (userHasBoughtCourse)
         return next(
-          new ErrorHandler('You have already purchased this course', 409)
+          new ErrorHandler('You have already purchased this course', 409, {
+            code: 'already_purchased'
+          })
         );
 
       const course = await Course.findById(courseId);
 
-      if (!course) return next(new ErrorHandler('Course does not exist', 404));
-
-      const data: any = {
-        courseId: course._id,
-        userId: user?._id,
-        payment_info
-      };
-
-      const mailData = {
-        order: {
-          _id: course._id.toString().slice(0, 6),
-          name: course.name,
-          price: course.price,
-          userName: user?.name,
-          date: new Date().toLocaleDateString()
-        }
-      }
+      if (!course || course.status !== 'published')
+        return next(new ErrorHandler('Course does not exist', 404));
 
-      try {
-        if (user) {
-          await sendMail({
-            email: user.email,
-            subject: 'Order Confirmation',
-            template: 'order-confirmation.ejs',
-            data: mailData
-          })
+      const quote = await CouponService.quote(
+        course,
+        user._id.toString(),
+        couponCode
+      );
+
+      const { order, clientSecret } = await OrderService.createPendingOrder(
+        user,
+        course,
+        quote
+      );
+
+      res.status(201).json({
+        success: true,
+        order,
+        clientSecret
+      });
+    } catch (error: any) {
+      return next(error);
+    }
+  }
+);
+
+/**
+ * @description Get the final price of a course for the authenticated user, with a coupon code applied
+ * @route POST /orders/quote
+ * @access Private
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next middleware function
+ *
+ * @throws {Error} If the specified course does not exist (HTTP status code 404)
+ * @throws {Error} If the coupon code is invalid, expired or used up (HTTP status code 404 or 422)
+ *
+ * @returns {Object} JSON response with the quote
+ * - price (number): The course price
+ * - discount (number): The discount given by the coupon
+ * - finalPrice (number): The price the user will pay
+ */
+export const quote = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { courseId, couponCode } = req.body as ICreateOrderBody;
+
+      const course = await Course.findById(courseId);
+
+      if (!course || course.status !== 'published')
+        return next(new ErrorHandler('Course does not exist', 404));
+
+      const { price, discount, finalPrice, coupon } = await CouponService.quote(
+        course,
+        req.user?._id,
+        couponCode
+      );
+
+      res.status(200).json({
+        success: true,
+        quote: {
+          price,
+          discount,
+          finalPrice,
+          coupon: coupon?.code
         }
-      } catch (error: any) {
-        return next(new ErrorHandler(`Error sending order confirmation email ${error.message}`, 500))
-      }
+      });
+    } catch (error: any) {
+      return next(error);
+    }
+  }
+);
+
+/**
+ * @description Receive signed payment events from the payment provider and confirm or fail the matching order
+ * @route POST /orders/webhook
+ * @access Public (signed by the payment provider)
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next middleware function
+ *
+ * @throws {Error} If the webhook signature is missing, invalid or expired (HTTP status code 400)
+ * @throws {Error} If an error occurs while processing the event (HTTP status code 500)
+ *
+ * @returns {Object} JSON response acknowledging the event
+ */
+export const paymentWebhook = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const signature = req.get('stripe-signature') || '';
+
+      const event = paymentProvider.constructEvent(
+        req.rawBody as Buffer,
+        signature
+      );
+
+      if (event.type === 'succeeded')
+        await OrderService.confirmOrder(event.reference, event.data);
+
+      if (event.type === 'failed')
+        await OrderService.failOrder(event.reference, event.data);
+
+      res.status(200).json({
+        success: true,
+        received: true
+      });
+    } catch (error: any) {
+      return next(error);
+    }
+  }
+);
+
+/**
+ * @description Refund an order in full or in part and revoke the buyer's access to the course
+ * @route POST /orders/:id/refund
+ * @access Private (admin)
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next middleware function
+ *
+ * @throws {Error} If the order does not exist (HTTP status code 404)
+ * @throws {Error} If the order is not paid or was already refunded (HTTP status code 409)
+ * @throws {Error} If the refund amount is invalid (HTTP status code 422)
+ * @throws {Error} If an error occurs during the refund (HTTP status code 500)
+ *
+ * @returns {Object} JSON response with the refunded order
+ */
+export const refundOrder = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      const { amount } = req.body as IRefundBody;
 
-      // add course id to list of courses bought by user
-      user?.courses.push(course?._id);
+      const order = await OrderService.refundOrder(
+        id,
+        amount === undefined ? undefined : Number(amount)
+      );
 
-      await user?.save();
+      await AuditService.record(
+        req,
+        'order.refund',
+        { type: 'order', id },
+        { amount: order.refundedAmount, currency: order.currency }
+      );
 
-      await Notification.create({
-        userId: user?._id,
-        title: 'New Order',
-        message: `You have a new order from ${course?.name}`
-      })
+      res.status(200).json({
+        success: true,
+        order
+      });
+    } catch (error: any) {
+      return next(error);
+    }
+  }
+);
 
-      // if course.purchased is null or undefined, we initialize it to 1 else we increment
-      course.purchased = (course.purchased ?? 0) + 1
+/**
+ * @description Request a refund for one of the authenticated user's orders
+ * @route POST /orders/:id/refund-request
+ * @access Private
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next middleware function
+ *
+ * @throws {Error} If the order does not exist or belongs to another user (HTTP status code 404)
+ * @throws {Error} If the refund window has passed (HTTP status code 403)
+ * @throws {Error} If the order isn't paid or a refund was already requested (HTTP status code 409)
+ *
+ * @returns {Object} JSON response with the order and its pending refund request
+ */
+export const requestRefund = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      const { reason } = req.body as IRefundRequestBody;
 
-      await course.save();
+      const order = await OrderService.requestRefund(
+        id,
+        req.user?._id,
+        reason
+      );
 
-      OrderService.createNewOrder(data, res, next);
+      res.status(201).json({
+        success: true,
+        order
+      });
     } catch (error: any) {
-      return next(
-        new ErrorHandler(`Error processing create order :${error.message}`, 500)
+      return next(error);
+    }
+  }
+);
+
+/**
+ * @description Approve or reject a student's refund request. Approving it refunds the order.
+ * @route PUT /orders/:id/refund-request
+ * @access Private (admin)
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next middleware function
+ *
+ * @throws {Error} If the status is neither 'approved' nor 'rejected' (HTTP status code 422)
+ * @throws {Error} If the order does not exist (HTTP status code 404)
+ * @throws {Error} If the order has no pending refund request (HTTP status code 409)
+ *
+ * @returns {Object} JSON response with the reviewed order
+ */
+export const reviewRefundRequest = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      const { status, amount } = req.body as IReviewRefundRequestBody;
+
+      if (!['approved', 'rejected'].includes(status))
+        return next(
+          new ErrorHandler("Status must be either 'approved' or 'rejected'", 422)
+        );
+
+      if (status === 'rejected') {
+        const order = await OrderService.rejectRefundRequest(id);
+
+        await AuditService.record(req, 'order.refund.reject', { type: 'order', id });
+
+        return res.status(200).json({
+          success: true,
+          order
+        });
+      }
+
+      const order = await Order.findById(id);
+
+      if (order?.refundRequest?.status !== 'pending')
+        return next(
+          new ErrorHandler('This order has no pending refund request', 409)
+        );
+
+      const refundedOrder = await OrderService.refundOrder(
+        id,
+        amount === undefined ? undefined : Number(amount)
       );
+
+      await AuditService.record(
+        req,
+        'order.refund',
+        { type: 'order', id },
+        {
+          amount: refundedOrder.refundedAmount,
+          currency: refundedOrder.currency,
+          refundRequest: 'approved'
+        }
+      );
+
+      res.status(200).json({
+        success: true,
+        order: refundedOrder
+      });
+    } catch (error: any) {
+      return next(error);
     }
   }
 );
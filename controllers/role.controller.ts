@@ -0,0 +1,137 @@
+import { Request, Response, NextFunction } from 'express';
+
+import catchAsyncErrors from '../middleware/catchAsyncErrors';
+import RoleService, { roleActorOf } from '../services/role.service';
+import AuditService from '../services/audit.service';
+import { permissions } from '../utils/permissions';
+import { ICreateRoleBody, IUpdateRoleBody } from '../schemas/role.schema';
+
+/**
+ * @description Get all roles and the permissions that can be granted
+ * @route GET /api/v1/roles
+ * @access Private (role:write)
+ *
+ * @returns {Object} Response JSON with the list of roles and of permissions
+ * @throws {Error} If an internal server error occurs during processing
+ */
+export const index = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const roles = await RoleService.getAllRoles();
+
+      res.status(200).json({
+        success: true,
+        roles,
+        permissions
+      });
+    } catch (error: any) {
+      return next(error);
+    }
+  }
+);
+
+/**
+ * @description Create a role as a bundle of permissions
+ * @route POST /api/v1/roles
+ * @access Private (role:write)
+ *
+ * @param {Object} body - The role name, description and permissions
+ *
+ * @returns {Object} Response JSON with the created role
+ * @throws {Error} If the user lacks one of the permissions of the role (HTTP status code 403)
+ * @throws {Error} If the role already exists (HTTP status code 409)
+ * @throws {Error} If the name or a permission is invalid (HTTP status code 422)
+ */
+export const create = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { name, description, permissions } = req.body as ICreateRoleBody;
+
+      const role = await RoleService.createRole(roleActorOf(req), {
+        name,
+        description,
+        permissions
+      });
+
+      await AuditService.record(
+        req,
+        'role.create',
+        { type: 'role', id: role.name },
+        { permissions: role.permissions }
+      );
+
+      res.status(201).json({
+        success: true,
+        role
+      });
+    } catch (error: any) {
+      return next(error);
+    }
+  }
+);
+
+/**
+ * @description Update the description and permissions of a role
+ * @route PUT /api/v1/roles/:name
+ * @access Private (role:write)
+ *
+ * @param {Object} body - The role description and permissions
+ *
+ * @returns {Object} Response JSON with the updated role
+ * @throws {Error} If the role is the admin role or the user's own role (HTTP status code 403)
+ * @throws {Error} If the user lacks a permission the role has or is given (HTTP status code 403)
+ * @throws {Error} If the role is not found (HTTP status code 404)
+ * @throws {Error} If a permission is invalid (HTTP status code 422)
+ */
+export const update = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { description, permissions } = req.body as IUpdateRoleBody;
+
+      const role = await RoleService.updateRole(roleActorOf(req), req.params.name, {
+        description,
+        permissions
+      });
+
+      await AuditService.record(
+        req,
+        'role.update',
+        { type: 'role', id: role.name },
+        { fields: Object.keys(req.body), permissions: role.permissions }
+      );
+
+      res.status(200).json({
+        success: true,
+        role
+      });
+    } catch (error: any) {
+      return next(error);
+    }
+  }
+);
+
+/**
+ * @description Delete a role that no user has
+ * @route DELETE /api/v1/roles/:name
+ * @access Private (role:write)
+ *
+ * @throws {Error} If the role is a default role (HTTP status code 403)
+ * @throws {Error} If the role is not found (HTTP status code 404)
+ * @throws {Error} If users still have the role (HTTP status code 409)
+ */
+export const destroy = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await RoleService.deleteRole(req.params.name);
+
+      await AuditService.record(req, 'role.delete', { type: 'role', id: req.params.name });
+
+      res.status(204).json({
+        success: true,
+        message: 'Role deleted successfully'
+      });
+    } catch (error: any) {
+      return next(error);
+    }
+  }
+);
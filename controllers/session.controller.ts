@@ -0,0 +1,75 @@
+import { Request, Response, NextFunction } from 'express';
+
+import catchAsyncErrors from '../middleware/catchAsyncErrors';
+import ErrorHandler from '../utils/ErrorHandler';
+import { getSession, listSessions, revokeSession } from '../utils/session';
+
+/**
+ * @description Get the devices the authenticated user is logged in on
+ * @route GET /api/v1/sessions
+ * @access Private
+ *
+ * @returns {Object} Response JSON with the list of sessions, newest first
+ * - sessions (Array): The sessions of the user
+ *   - id (string): The session id, used to revoke it
+ *   - device (string): The browser and operating system of the device
+ *   - ip (string): The last known ip address of the device
+ *   - userAgent (string): The user agent of the device
+ *   - createdAt (string): When the user logged in on the device
+ *   - lastSeenAt (string): When the device was last used
+ *   - current (boolean): Whether this is the session making the request
+ * @throws {Error} If an internal server error occurs during processing
+ */
+export const index = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const sessions = await listSessions(req.user?._id.toString());
+
+      res.status(200).json({
+        success: true,
+        sessions: sessions.map(
+          ({ id, device, ip, userAgent, createdAt, lastSeenAt }) => ({
+            id,
+            device,
+            ip,
+            userAgent,
+            createdAt,
+            lastSeenAt,
+            current: id === req.sessionId
+          })
+        )
+      });
+    } catch (error: any) {
+      return next(error);
+    }
+  }
+);
+
+/**
+ * @description Log the authenticated user out of one of their devices
+ * @route DELETE /api/v1/sessions/:id
+ * @access Private
+ *
+ * @param {string} id - The ID of the session to revoke
+ *
+ * @throws {Error} If the session is not found or belongs to another user (HTTP status code 404)
+ */
+export const destroy = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const session = await getSession(req.params.id);
+
+      if (!session || session.userId !== req.user?._id.toString())
+        return next(new ErrorHandler('Session not found', 404));
+
+      await revokeSession(session);
+
+      res.status(204).json({
+        success: true,
+        message: 'Session revoked successfully'
+      });
+    } catch (error: any) {
+      return next(error);
+    }
+  }
+);
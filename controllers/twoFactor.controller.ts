@@ -0,0 +1,269 @@
+import { Request, Response, NextFunction } from 'express';
+import jwt, { JwtPayload } from 'jsonwebtoken';
+import crypto from 'crypto';
+
+import catchAsyncErrors from '../middleware/catchAsyncErrors';
+import User, { IUser } from '../models/user.model';
+import ErrorHandler from '../utils/ErrorHandler';
+import { redis } from '../utils/redis';
+import { config } from '../utils/config';
+import { sendToken } from '../utils/jwt';
+import { checkCredentials } from '../utils/loginAttempts';
+import {
+  buildOtpAuthUrl,
+  claimTotpStep,
+  generateTotpSecret,
+  verifyTotp
+} from '../utils/totp';
+import { ITwoFactorLoginRequest } from '../schemas/twoFactor.schema';
+
+// maximum number of attempts at entering a code for a login challenge
+const challengeAttemptLimit = 5;
+const backupCodeCount = 10;
+
+const hashBackupCode = (code: string) =>
+  crypto
+    .createHash('sha256')
+    .update(code.replace(/\s|-/g, '').toLowerCase())
+    .digest('hex');
+
+// backup codes look like 'a1b2c-3d4e5'
+const generateBackupCodes = () =>
+  Array.from({ length: backupCodeCount }, () => {
+    const code = crypto.randomBytes(5).toString('hex');
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+
+/**
+ * @description Check a TOTP code or a backup code for a user loaded with its two-factor secrets.
+ * A used backup code is removed, and a TOTP code can't be used twice.
+ *
+ * @returns {boolean} Whether the code is valid
+ */
+const verifySecondFactor = async (user: IUser, code: string) => {
+  const userId = user._id.toString();
+  const step = user.twoFactorSecret
+    ? verifyTotp(user.twoFactorSecret, code)
+    : null;
+
+  // reject codes from a time step that was already used to prevent replays
+  if (step !== null) return claimTotpStep(userId, step);
+
+  const hashed = hashBackupCode(code || '');
+
+  if (!user.twoFactorBackupCodes?.includes(hashed)) return false;
+
+  user.twoFactorBackupCodes = user.twoFactorBackupCodes.filter(
+    (backupCode) => backupCode !== hashed
+  );
+  await user.save();
+
+  return true;
+};
+
+/**
+ * @description Start enrolling in two-factor authentication by generating a new secret.
+ * Two-factor authentication is only enabled once a code is verified at /2fa/verify.
+ * @route POST /api/v1/2fa/setup
+ * @access Private
+ *
+ * @throws {Error} If two-factor authentication is already enabled (HTTP status code 409)
+ *
+ * @returns {Object} JSON response with the secret and the otpauth URI to show as a QR code
+ * - secret (string): The base32 secret, for manual entry in authenticator apps
+ * - otpauthUrl (string): The otpauth:// URI
+ */
+export const setupTwoFactor = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = await User.findById(req.user?._id);
+
+      if (!user) return next(new ErrorHandler('User not found', 404));
+
+      if (user.twoFactorEnabled)
+        return next(
+          new ErrorHandler('Two-factor authentication is already enabled', 409)
+        );
+
+      const secret = generateTotpSecret();
+
+      user.twoFactorSecret = secret;
+      await user.save();
+
+      res.status(200).json({
+        success: true,
+        secret,
+        otpauthUrl: buildOtpAuthUrl(secret, user.email)
+      });
+    } catch (error: any) {
+      return next(error);
+    }
+  }
+);
+
+/**
+ * @description Enable two-factor authentication by verifying a code from the authenticator app
+ * @route POST /api/v1/2fa/verify
+ * @access Private
+ *
+ * @param {Object} body - The request body
+ * @param {string} body.code - The 6 digit code from the authenticator app
+ *
+ * @throws {Error} If two-factor authentication was not set up first (HTTP status code 409)
+ * @throws {Error} If the code is invalid (HTTP status code 401)
+ *
+ * @returns {Object} JSON response with the one-time backup codes, which are only shown once
+ */
+export const verifyTwoFactor = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { code } = req.body as { code: string };
+
+      const user = await User.findById(req.user?._id).select(
+        '+twoFactorSecret +twoFactorBackupCodes'
+      );
+
+      if (!user) return next(new ErrorHandler('User not found', 404));
+
+      if (user.twoFactorEnabled || !user.twoFactorSecret)
+        return next(
+          new ErrorHandler(
+            'Please set up two-factor authentication before verifying it',
+            409
+          )
+        );
+
+      if (!verifyTotp(user.twoFactorSecret, code))
+        return next(new ErrorHandler('Invalid two-factor code', 401, { code: 'invalid_code' }));
+
+      const backupCodes = generateBackupCodes();
+
+      user.twoFactorEnabled = true;
+      user.twoFactorBackupCodes = backupCodes.map(hashBackupCode);
+      await user.save();
+
+      // update user on redis
+      await redis.set(user._id.toString(), JSON.stringify(user));
+
+      res.status(200).json({
+        success: true,
+        message: 'Two-factor authentication enabled',
+        backupCodes
+      });
+    } catch (error: any) {
+      return next(error);
+    }
+  }
+);
+
+/**
+ * @description Disable two-factor authentication
+ * @route POST /api/v1/2fa/disable
+ * @access Private
+ *
+ * @param {Object} body - The request body
+ * @param {string} body.code - A code from the authenticator app or a backup code
+ *
+ * @throws {Error} If two-factor authentication is not enabled (HTTP status code 409)
+ * @throws {Error} If the code is invalid (HTTP status code 401)
+ */
+export const disableTwoFactor = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { code } = req.body as { code: string };
+
+      const user = await User.findById(req.user?._id).select(
+        '+twoFactorSecret +twoFactorBackupCodes'
+      );
+
+      if (!user) return next(new ErrorHandler('User not found', 404));
+
+      if (!user.twoFactorEnabled)
+        return next(
+          new ErrorHandler('Two-factor authentication is not enabled', 409)
+        );
+
+      if (!(await verifySecondFactor(user, code)))
+        return next(new ErrorHandler('Invalid two-factor code', 401, { code: 'invalid_code' }));
+
+      user.twoFactorEnabled = false;
+      user.twoFactorSecret = undefined;
+      user.twoFactorBackupCodes = [];
+      await user.save();
+
+      // update user on redis
+      await redis.set(user._id.toString(), JSON.stringify(user));
+
+      res.status(200).json({
+        success: true,
+        message: 'Two-factor authentication disabled'
+      });
+    } catch (error: any) {
+      return next(error);
+    }
+  }
+);
+
+/**
+ * @description Complete a login by answering the two-factor challenge issued by /login
+ * @route POST /api/v1/2fa/login
+ * @access Public
+ *
+ * @param {Object} body - The request body
+ * @param {string} body.challenge_token - The challenge token returned by /login
+ * @param {string} body.code - A code from the authenticator app or a backup code
+ *
+ * @throws {Error} If the challenge token or code is missing (HTTP status code 422)
+ * @throws {Error} If the challenge was answered wrongly too many times, or the account is locked (HTTP status code 429)
+ * @throws {Error} If the code is invalid (HTTP status code 401)
+ * @throws {Error} If the challenge token is invalid or expired (HTTP status code 400)
+ *
+ * @returns {Object} JSON response with authentication token if login is successful
+ */
+export const loginTwoFactor = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { challenge_token, code } = req.body as ITwoFactorLoginRequest;
+
+      if (!challenge_token || !code)
+        return next(
+          new ErrorHandler('Please enter your two-factor code', 422)
+        );
+
+      const decoded = jwt.verify(
+        challenge_token,
+        config.auth.twoFactorSecret
+      ) as JwtPayload;
+
+      const attemptsKey = `2fa-attempts:${decoded.jti}`;
+      const attempts = await redis.incr(attemptsKey);
+
+      if (attempts === 1) await redis.expire(attemptsKey, 300); // 5 minutes
+
+      if (attempts > challengeAttemptLimit)
+        return next(
+          new ErrorHandler('Too many attempts. Please login again', 429)
+        );
+
+      const user = await User.findById(decoded.id).select(
+        '+twoFactorSecret +twoFactorBackupCodes'
+      );
+
+      if (!user || !user.twoFactorEnabled)
+        return next(new ErrorHandler('Please login again', 401));
+
+      // wrong codes count towards the lockout of the account, whatever the challenge
+      await checkCredentials(req, user.email, user, (user) => verifySecondFactor(user, code), {
+        message: 'Invalid two-factor code',
+        code: 'invalid_code'
+      });
+
+      // the challenge can only be answered once
+      await redis.set(attemptsKey, challengeAttemptLimit + 1, 'KEEPTTL');
+
+      await sendToken(user, 200, req, res);
+    } catch (error: any) {
+      return next(error);
+    }
+  }
+);
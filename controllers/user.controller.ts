@@ -1,51 +1,80 @@
 import { NextFunction, Request, Response } from 'express';
-import jwt, { JwtPayload, Secret } from 'jsonwebtoken';
+import jwt, { JwtPayload } from 'jsonwebtoken';
 import ejs from 'ejs';
 
 import catchAsyncErrors from '../middleware/catchAsyncErrors';
 import User, { IUser } from '../models/user.model';
 import ErrorHandler from '../utils/ErrorHandler';
 import path from 'path';
+import crypto from 'crypto';
 import sendMail from '../utils/sendMail';
 import {
   accessTokenOptions,
   refreshTokenOptions,
-  sendToken
+  sendToken,
+  sendTwoFactorChallenge
 } from '../utils/jwt';
 import { redis } from '../utils/redis';
-import UserService from '../services/user.service';
+import { logger } from '../utils/logger';
+import { config } from '../utils/config';
+import {
+  getSession,
+  revokeAllSessions,
+  revokeSession,
+  rotateSession
+} from '../utils/session';
+import UserService, { userListOptions } from '../services/user.service';
+import AuditService from '../services/audit.service';
+import { roleActorOf } from '../services/role.service';
+import { parseListQuery } from '../utils/listQuery';
 import { cloudinary } from '../server';
+import { verifyIdToken } from '../utils/socialAuth';
+import {
+  checkCredentials,
+  clearFailures,
+  getRetryAfter,
+  recordFailure
+} from '../utils/loginAttempts';
+import {
+  IActivationRequest,
+  IForgotPasswordRequest,
+  ILoginRequest,
+  IRegistrationBody,
+  IResetPasswordRequest,
+  ISocialAuthBody,
+  IUpdatePassword,
+  IUpdateProfilePicture,
+  IUpdateUserInfo
+} from '../schemas/user.schema';
 
 /**
- * @description Get all users sorted by createdAt
- * @route GET /users
+ * @description Get a page of users, newest first by default. Locked accounts carry their lockedUntil date and lockReason.
+ * @route GET /users?locked=true
  * @access Private (admin)
  *
- * @returns {Object} JSON response with the list of users
+ * @param {string} [locked] - Set to 'true' to only get the accounts that are currently locked
+ * @param {Object} query - page, limit, sort (createdAt, name, email) and filters on role, email, isVerified, twoFactorEnabled and createdAt
+ *
+ * @returns {Object} JSON response with the page of users and the pagination
+ * @throws {Error} If a query parameter is invalid (HTTP status code 422)
  * @throws {Error} If an internal server error occurs during processing
  */
 export const index = catchAsyncErrors(
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      await UserService.getAllUsers(res);
-    } catch (error: any) {
-      return next(
-        new ErrorHandler(
-          `Error processing index function ${error.message}`,
-          500
-        )
+      const { locked, ...query } = req.query;
+
+      await UserService.getAllUsers(
+        res,
+        parseListQuery(query, userListOptions),
+        locked === 'true'
       );
+    } catch (error: any) {
+      return next(error);
     }
   }
 );
 
-interface IRegistrationBody {
-  name: string;
-  email: string;
-  password: string;
-  avatar?: string;
-}
-
 /**
  * @description Register a new user
  * @route POST /register
@@ -65,11 +94,11 @@ interface IRegistrationBody {
 export const registerUser = catchAsyncErrors(
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { name, email, password } = req.body;
+      const { name, email, password } = req.body as IRegistrationBody;
       const emailExists = await User.findOne({ email });
 
       if (emailExists) {
-        return next(new ErrorHandler('Email already exists', 409));
+        return next(new ErrorHandler('Email already exists', 409, { code: 'email_taken' }));
       }
 
       const user: IRegistrationBody = {
@@ -99,10 +128,10 @@ export const registerUser = catchAsyncErrors(
           activationToken: token
         });
       } catch (error: any) {
-        return next(new ErrorHandler(error.message, 400));
+        return next(error);
       }
     } catch (error: any) {
-      return next(new ErrorHandler(error.message, 400));
+      return next(error);
     }
   }
 );
@@ -112,15 +141,22 @@ interface IActivationToken {
   activationCode: string;
 }
 
+// the token is readable by the client, so it only carries a keyed hash of the code
+const hashActivationCode = (code: string) =>
+  crypto
+    .createHmac('sha256', config.auth.activationSecret)
+    .update(code)
+    .digest('hex');
+
 export const createActivationToken = (user: any): IActivationToken => {
-  const activationCode = Math.floor(1000 + Math.random() * 9000).toString();
+  const activationCode = crypto.randomInt(100000, 1000000).toString();
 
   const token = jwt.sign(
     {
       user,
-      activationCode
+      activationCode: hashActivationCode(activationCode)
     },
-    process.env.ACTIVATION_SECRET as Secret,
+    config.auth.activationSecret,
     {
       expiresIn: '5m'
     }
@@ -129,11 +165,6 @@ export const createActivationToken = (user: any): IActivationToken => {
   return { token, activationCode };
 };
 
-interface IActivationRequest {
-  activation_token: string;
-  activation_code: string;
-}
-
 /**
  * @description Activate a user account using the provided activation token and code
  * @route POST /activate-user
@@ -144,6 +175,7 @@ interface IActivationRequest {
  * @param {Function} next - Express next middleware function
  *
  * @throws {Error} If the activation code is invalid (HTTP status code 401)
+ * @throws {Error} If too many invalid codes were entered (HTTP status code 429)
  * @throws {Error} If the provided email already exists (HTTP status code 409)
  * @throws {Error} If an error occurs during user activation or database creation (HTTP status code 400)
  *
@@ -161,20 +193,44 @@ export const activateUser = catchAsyncErrors(
       const { activation_token, activation_code } =
         req.body as IActivationRequest;
 
+      // attempts are limited per activation token and per ip
+      const tokenId = crypto
+        .createHash('sha256')
+        .update(activation_token || '')
+        .digest('hex');
+
+      const retryAfter = await getRetryAfter(
+        ['activation', tokenId],
+        ['ip', req.ip]
+      );
+
+      if (retryAfter)
+        return next(
+          new ErrorHandler(
+            `Too many attempts. Please try again in ${retryAfter} seconds`,
+            429,
+            { retryAfter, code: 'too_many_attempts' }
+          )
+        );
+
       const decoded: { user: IUser; activationCode: string } = jwt.verify(
         activation_token,
-        process.env.ACTIVATION_SECRET as string
+        config.auth.activationSecret
       ) as { user: IUser; activationCode: string };
 
       // check if the activation code matches
-      if (decoded.activationCode !== activation_code)
-        return next(new ErrorHandler('Invalid activation code', 401));
+      if (decoded.activationCode !== hashActivationCode(activation_code || '')) {
+        await recordFailure('activation', tokenId);
+        if (req.ip) await recordFailure('ip', req.ip);
+
+        return next(new ErrorHandler('Invalid activation code', 401, { code: 'invalid_code' }));
+      }
 
       const { name, email, password } = decoded.user;
 
       const userExists = await User.findOne({ email });
 
-      if (userExists) return next(new ErrorHandler('Email aready exists', 409));
+      if (userExists) return next(new ErrorHandler('Email aready exists', 409, { code: 'email_taken' }));
 
       const user = await User.create({ name, email, password });
 
@@ -183,16 +239,11 @@ export const activateUser = catchAsyncErrors(
         user
       });
     } catch (error: any) {
-      return next(new ErrorHandler(error.message, 400));
+      return next(error);
     }
   }
 );
 
-interface ILoginRequest {
-  email: string;
-  password: string;
-}
-
 /**
  * @description Authenticate and log in a user
  * @route POST /login
@@ -205,9 +256,11 @@ interface ILoginRequest {
  * @throws {Error} If email or password is missing (HTTP status code 400)
  * @throws {Error} If the provided email is not associated with any user (HTTP status code 401)
  * @throws {Error} If the provided password is incorrect (HTTP status code 401)
+ * @throws {Error} If there were too many failed attempts or the account is locked (HTTP status code 429)
  * @throws {Error} If an error occurs during the login process (HTTP status code 400)
  *
- * @returns {Object} JSON response with authentication token if login is successful
+ * @returns {Object} JSON response with authentication token if login is successful,
+ * or with a challenge token to complete at /2fa/login if the user has two-factor authentication enabled
  */
 export const loginUser = catchAsyncErrors(
   async (req: Request, res: Response, next: NextFunction) => {
@@ -217,25 +270,73 @@ export const loginUser = catchAsyncErrors(
       if (!email || !password)
         return next(new ErrorHandler('Email and password required', 400));
 
-      const user = await User.findOne({ email }).select('+password');
+      const found = await User.findOne({ email }).select('+password');
+
+      const user = await checkCredentials(req, email, found, (user) =>
+        user.comparePassword(password)
+      );
+
+      if (user.twoFactorEnabled) return sendTwoFactorChallenge(user, res);
+
+      await sendToken(user, 200, req, res);
+    } catch (error: any) {
+      return next(error);
+    }
+  }
+);
+
+/**
+ * @description Unlock an account locked after too many failed logins, using the token emailed to the user
+ * @route POST /unlock-account
+ * @access Public
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next middleware function
+ *
+ * @throws {Error} If the token is missing (HTTP status code 422)
+ * @throws {Error} If the token is invalid or expired (HTTP status code 400)
+ *
+ * @returns {Object} JSON response indicating the account was unlocked
+ */
+export const unlockAccount = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { token } = req.body as { token: string };
 
-      if (!user)
-        return next(new ErrorHandler('Invalid email or password', 401));
+      if (!token) return next(new ErrorHandler('Unlock token is required', 422));
 
-      const passwordIsCorrect = await user.comparePassword(password);
+      const decoded = jwt.verify(
+        token,
+        config.auth.activationSecret
+      ) as JwtPayload;
 
-      if (!passwordIsCorrect)
-        return next(new ErrorHandler('Invalid email or password', 401));
+      if (decoded.purpose !== 'unlock')
+        return next(new ErrorHandler('Invalid unlock token', 400));
 
-      sendToken(user, 200, res);
+      const user = await User.findById(decoded.id);
+
+      if (!user) return next(new ErrorHandler('User not found', 404));
+
+      user.lockedUntil = undefined;
+      user.lockReason = undefined;
+      await user.save();
+
+      await clearFailures('email', user.email);
+
+      res.status(200).json({
+        success: true,
+        message: 'Your account has been unlocked. You can now log in'
+      });
     } catch (error: any) {
-      return next(new ErrorHandler(error.message, 400));
+      return next(error);
     }
   }
 );
 
 /**
- * @description Log out a user by clearing authentication cookies and removing data from Redis
+ * @description Log out the current session of a user by clearing authentication cookies and revoking the session in Redis.
+ * Other devices stay logged in.
  * @route GET /logout
  * @access Private
  *
@@ -255,22 +356,23 @@ export const logoutUser = catchAsyncErrors(
       res.cookie('access_token', '', { maxAge: 1 });
       res.cookie('refresh_token', '', { maxAge: 1 });
 
-      // delete from redis
-      const userId = req.user?._id;
-      redis.del(userId);
+      // revoke the current session only
+      const session = await getSession(req.sessionId || '');
+      if (session) await revokeSession(session);
 
       res.status(200).json({
         success: true,
         message: 'Logged out successfully!'
       });
     } catch (error: any) {
-      return next(new ErrorHandler(error.message, 400));
+      return next(error);
     }
   }
 );
 
 /**
- * @description Refresh access token using a valid refresh token
+ * @description Refresh access token using a valid refresh token. The refresh token is rotated on every call,
+ * and reusing an old refresh token revokes the whole session as it may have been stolen.
  * @route POST /refresh-token
  * @access Public
  *
@@ -280,6 +382,7 @@ export const logoutUser = catchAsyncErrors(
  *
  * @throws {Error} If the provided refresh token is invalid or expired (HTTP status code 400)
  * @throws {Error} If the user session is not found in Redis (HTTP status code 401)
+ * @throws {Error} If the refresh token was already used (HTTP status code 401)
  * @throws {Error} If an error occurs during the token refresh process (HTTP status code 400)
  *
  * @returns {Object} JSON response with the refreshed access token and new refresh token
@@ -292,31 +395,53 @@ export const updateAccessToken = catchAsyncErrors(
       const refresh_token = req.cookies.refresh_token as string;
       const decoded = jwt.verify(
         refresh_token,
-        process.env.REFRESH_TOKEN as string
+        config.auth.refreshTokenSecret
       ) as JwtPayload;
 
       if (!decoded) return next(new ErrorHandler('Could not refresh token', 400));
 
+      const session = decoded.sid ? await getSession(decoded.sid) : null;
+
+      if (!session || session.userId !== decoded.id)
+        return next(new ErrorHandler('Please login to access this route', 401));
+
+      // an old refresh token is being reused, so revoke the session for every holder of it
+      if (session.refreshTokenId !== decoded.jti) {
+        await revokeSession(session);
+        return next(
+          new ErrorHandler('Refresh token reuse detected. Please login again', 401, {
+            code: 'refresh_token_reused'
+          })
+        );
+      }
+
       // get user from redis
-      const session = await redis.get(decoded.id as string);
+      const cachedUser = await redis.get(decoded.id as string);
 
-      if (!session) return next(new ErrorHandler('Please login to access this route', 401));
+      const user = cachedUser
+        ? JSON.parse(cachedUser)
+        : await User.findById(decoded.id);
 
-      const user = JSON.parse(session);
+      if (!user) return next(new ErrorHandler('Please login to access this route', 401));
+
+      // the session may have been revoked or refreshed since it was read
+      const rotated = await rotateSession(session, req);
+
+      if (!rotated) return next(new ErrorHandler('Please login to access this route', 401));
 
       const accessToken = jwt.sign(
-        { id: user._id },
-        process.env.ACCESS_TOKEN as string,
+        { id: user._id, sid: session.id },
+        config.auth.accessTokenSecret,
         {
-          expiresIn: '5m'
+          expiresIn: `${config.auth.accessTokenExpires}m`
         }
       );
 
       const refreshToken = jwt.sign(
-        { id: user._id },
-        process.env.REFRESH_TOKEN as string,
+        { id: user._id, sid: session.id, jti: rotated.refreshTokenId },
+        config.auth.refreshTokenSecret,
         {
-          expiresIn: '3d'
+          expiresIn: `${config.auth.refreshTokenExpires}d`
         }
       );
 
@@ -325,14 +450,15 @@ export const updateAccessToken = catchAsyncErrors(
       res.cookie('access_token', accessToken, accessTokenOptions);
       res.cookie('refresh_token', refreshToken, refreshTokenOptions);
 
-      await redis.set(user._id, JSON.stringify(user), 'EX', 259200) // expires in 3 days in seconds ('EX', 259200)
+      // cached as long as the refresh token lives
+      await redis.set(user._id, JSON.stringify(user), 'EX', config.auth.refreshTokenExpires * 24 * 60 * 60)
       
       res.status(200).json({
         status: 'success',
         refreshToken
       });
     } catch (error: any) {
-      return next(new ErrorHandler(error.message, 400));
+      return next(error);
     }
   }
 );
@@ -356,20 +482,15 @@ export const getUserInfo = catchAsyncErrors(
     try {
       UserService.getUserById(req.user?._id, res);
     } catch (error: any) {
-      return next(new ErrorHandler(error.message, 400));
+      return next(error);
     }
   }
 );
 
-// social authentication
-interface ISocialAuthBody {
-  name: string;
-  email: string;
-  avatar: string;
-}
-
 /**
- * @description Authenticate user through social media (Google, Facebook, etc.)
+ * @description Authenticate user through a social provider (Google, GitHub) using the provider's ID token.
+ * The token signature is verified against the provider's keys. An existing account with the same email
+ * and a password is only linked to the social identity once the user confirms with that password.
  * @route POST /social-auth
  * @access Public
  *
@@ -377,6 +498,9 @@ interface ISocialAuthBody {
  * @param {Object} res - Express response object
  * @param {Function} next - Express next middleware function
  *
+ * @throws {Error} If the provider or ID token is missing (HTTP status code 422)
+ * @throws {Error} If the ID token is invalid or the password confirming the link is wrong (HTTP status code 401)
+ * @throws {Error} If a password account with the same email exists and no password was given (HTTP status code 409)
  * @throws {Error} If an error occurs during social authentication or token sending (HTTP status code 400)
  *
  * @returns {Object} JSON response with authentication token if authentication is successful
@@ -384,29 +508,78 @@ interface ISocialAuthBody {
 export const socialAuth = catchAsyncErrors(
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { name, email, avatar } = req.body as ISocialAuthBody;
+      const { provider, idToken, password } = req.body as ISocialAuthBody;
+
+      if (!provider || !idToken)
+        return next(new ErrorHandler('Provider and idToken are required', 422));
+
+      const profile = await verifyIdToken(provider, idToken);
+
+      const socialAccount = {
+        provider: profile.provider,
+        subject: profile.subject,
+        email: profile.email,
+        linkedAt: new Date()
+      };
 
-      // if the does not exist, create a new user, else signin
-      const user = await User.findOne({ email });
+      // sign in if the social identity is already linked
+      let user = await User.findOne({
+        socialAccounts: {
+          $elemMatch: { provider: profile.provider, subject: profile.subject }
+        }
+      });
 
       if (!user) {
-        const newUser = await User.create({ name, email, avatar });
-        return sendToken(newUser, 201, res);
-      } else {
-        sendToken(user, 200, res);
+        // the provider vouched for the email, verifyIdToken refuses tokens that don't
+        const existingUser = await User.findOne({ email: profile.email }).select(
+          '+password'
+        );
+
+        // if the user does not exist, create a new user
+        if (!existingUser) {
+          const newUser = await User.create({
+            name: profile.name,
+            email: profile.email,
+            avatar: { public_id: '', url: profile.avatar },
+            isVerified: true,
+            socialAccounts: [socialAccount]
+          });
+          return await sendToken(newUser, 201, req, res);
+        }
+
+        // never merge with a password account without the user confirming it owns it
+        if (existingUser.password) {
+          if (!password)
+            return next(
+              new ErrorHandler(
+                'An account with this email already exists. Enter its password to link your social account',
+                409
+              )
+            );
+
+          await checkCredentials(req, existingUser.email, existingUser, (user) =>
+            user.comparePassword(password)
+          );
+        }
+
+        existingUser.socialAccounts.push(socialAccount);
+        await existingUser.save();
+
+        // reload without the password so it isn't sent back or cached
+        user = await User.findById(existingUser._id);
+
+        if (!user) return next(new ErrorHandler('User not found', 404));
       }
+
+      if (user.twoFactorEnabled) return sendTwoFactorChallenge(user, res);
+
+      await sendToken(user, 200, req, res);
     } catch (error: any) {
-      return next(new ErrorHandler(error.message, 400));
+      return next(error);
     }
   }
 );
 
-// update user info
-interface IUpdateUserInfo {
-  name?: string;
-  email?: string;
-}
-
 /**
  * @description Update user information such as name and email
  * @route PUT /update-user-info
@@ -441,7 +614,7 @@ export const updateUserInfo = catchAsyncErrors(
         const emailInUse = await User.findOne({ email });
 
         if (emailInUse) {
-          return next(new ErrorHandler('Email already in use', 409));
+          return next(new ErrorHandler('Email already in use', 409, { code: 'email_taken' }));
         }
 
         user.email = email;
@@ -462,16 +635,11 @@ export const updateUserInfo = catchAsyncErrors(
         user
       });
     } catch (error: any) {
-      return next(new ErrorHandler(error.message, 400));
+      return next(error);
     }
   }
 );
 
-interface IUpdatePassword {
-  oldPassword: string;
-  newPassword: string;
-}
-
 /**
  * @description Update user password
  * @route PUT /update-password
@@ -521,7 +689,9 @@ export const updatePassword = catchAsyncErrors(
       const passwordCorrect = await user.comparePassword(oldPassword);
 
       if (!passwordCorrect) {
-        return next(new ErrorHandler('Incorrect old password', 409));
+        return next(new ErrorHandler('Incorrect old password', 409, {
+          code: 'invalid_credentials'
+        }));
       }
 
       // update the new password on mongodb and redis
@@ -534,16 +704,206 @@ export const updatePassword = catchAsyncErrors(
         user
       });
     } catch (error: any) {
-      return next(new ErrorHandler(error.message, 400));
+      return next(error);
     }
   }
 );
 
-// Update profile pic
-interface IUpdateProfilePicture {
-  avatar: string;
+// maximum number of reset codes that can be requested for an email per hour
+const resetPasswordRequestLimit = 3;
+// maximum number of attempts at entering a reset code
+const resetPasswordAttemptLimit = 5;
+
+interface IResetPasswordToken {
+  token: string;
+  resetCode: string;
+}
+
+interface IResetPasswordPayload {
+  email: string;
+  codeHash: string;
+  passwordHash: string;
 }
 
+// the token is readable by the client, so it only carries keyed hashes of the code and current password
+const hashResetSecret = (value: string) =>
+  crypto
+    .createHmac('sha256', config.auth.resetPasswordSecret)
+    .update(value)
+    .digest('hex');
+
+/**
+ * @description Create a short-lived reset password token and the numeric code sent by email.
+ * The token is bound to the current password, so it can only be used once.
+ */
+export const createResetPasswordToken = (
+  email: string,
+  password: string = ''
+): IResetPasswordToken => {
+  const resetCode = crypto.randomInt(100000, 1000000).toString();
+
+  const token = jwt.sign(
+    {
+      email,
+      codeHash: hashResetSecret(resetCode),
+      passwordHash: hashResetSecret(password)
+    },
+    config.auth.resetPasswordSecret,
+    {
+      expiresIn: '10m'
+    }
+  );
+
+  return { token, resetCode };
+};
+
+/**
+ * @description Send a one-time code to reset the password of an account
+ * @route POST /forgot-password
+ * @access Public
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next middleware function
+ *
+ * @throws {Error} If the email is missing (HTTP status code 422)
+ * @throws {Error} If too many codes were requested for the email (HTTP status code 429)
+ * @throws {Error} If an error occurs while sending the email (HTTP status code 400)
+ *
+ * @returns {Object} JSON response with the reset token to send back with the code.
+ * The response is the same whether or not an account exists for the email.
+ * - success (boolean): Indicates if the request was successful
+ * - message (string): Message instructing the user to check their email
+ * - resetToken (string): Token for resetting the password
+ */
+export const forgotPassword = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { email } = req.body as IForgotPasswordRequest;
+
+      if (!email) return next(new ErrorHandler('Please enter your email', 422));
+
+      // rate limit the number of reset codes sent to an email
+      const requestsKey = `reset-password:${email.toLowerCase()}`;
+      const requests = await redis.incr(requestsKey);
+
+      if (requests === 1) await redis.expire(requestsKey, 3600); // 1 hour
+
+      if (requests > resetPasswordRequestLimit)
+        return next(
+          new ErrorHandler(
+            'Too many password reset requests. Please try again later',
+            429
+          )
+        );
+
+      const user = await User.findOne({ email }).select('+password');
+
+      const { token, resetCode } = createResetPasswordToken(
+        email,
+        user?.password
+      );
+
+      if (user) {
+        await sendMail({
+          email: user.email,
+          subject: 'Reset your password',
+          template: 'reset-password-mail.ejs',
+          data: { user: { name: user.name }, resetCode }
+        });
+      }
+
+      res.status(200).json({
+        success: true,
+        message: `If an account exists for ${email}, a reset code has been sent to it`,
+        resetToken: token
+      });
+    } catch (error: any) {
+      return next(error);
+    }
+  }
+);
+
+/**
+ * @description Reset the password of an account using the reset token and emailed code,
+ * and log the user out of their current session
+ * @route POST /reset-password
+ * @access Public
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next middleware function
+ *
+ * @throws {Error} If the token, code or new password is missing (HTTP status code 422)
+ * @throws {Error} If the code was entered wrongly too many times (HTTP status code 429)
+ * @throws {Error} If the code is invalid or was already used (HTTP status code 401)
+ * @throws {Error} If the token is invalid or expired, or the password is invalid (HTTP status code 400)
+ *
+ * @returns {Object} JSON response indicating successful password reset
+ */
+export const resetPassword = catchAsyncErrors(
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { reset_token, reset_code, password } =
+        req.body as IResetPasswordRequest;
+
+      if (!reset_token || !reset_code || !password)
+        return next(
+          new ErrorHandler('Please enter the reset code and a new password', 422)
+        );
+
+      const decoded = jwt.verify(
+        reset_token,
+        config.auth.resetPasswordSecret
+      ) as IResetPasswordPayload;
+
+      // limit the attempts at guessing the code of a token
+      const attemptsKey = `reset-password-attempts:${decoded.codeHash}`;
+      const attempts = await redis.incr(attemptsKey);
+
+      if (attempts === 1) await redis.expire(attemptsKey, 600); // 10 minutes
+
+      if (attempts > resetPasswordAttemptLimit)
+        return next(
+          new ErrorHandler(
+            'Too many attempts. Please request a new reset code',
+            429
+          )
+        );
+
+      if (hashResetSecret(reset_code) !== decoded.codeHash)
+        return next(new ErrorHandler('Invalid reset code', 401, { code: 'invalid_code' }));
+
+      const user = await User.findOne({ email: decoded.email }).select(
+        '+password'
+      );
+
+      // the password hash changes once the token has been used
+      if (!user || hashResetSecret(user.password || '') !== decoded.passwordHash)
+        return next(
+          new ErrorHandler('This reset code is no longer valid', 401, {
+            code: 'invalid_code'
+          })
+        );
+
+      user.password = password;
+      await user.save();
+
+      // log the user out of every device
+      await revokeAllSessions(user._id.toString());
+      await redis.del(user._id.toString());
+      await redis.del(attemptsKey);
+
+      res.status(200).json({
+        success: true,
+        message: 'Password reset successfully. Please log in with your new password'
+      });
+    } catch (error: any) {
+      return next(error);
+    }
+  }
+);
+
 /**
  * @description Update user profile picture
  * @route PUT /update-user-avatar
@@ -610,7 +970,7 @@ export const updateProfilePicture = catchAsyncErrors(
         user
       });
     } catch (error: any) {
-      return next(new ErrorHandler(error.message, 400));
+      return next(error);
     }
   }
 );
@@ -618,12 +978,15 @@ export const updateProfilePicture = catchAsyncErrors(
 /**
  * @description Update user role by ID
  * @route PUT /update-user-role
- * @access Private (admin)
+ * @access Private (user:write, role:write)
  *
  * @param {Object} req - Express request object
  * @param {Object} res - Express response object
  * @param {Function} next - Express next middleware function
  *
+ * @throws {Error} If changing their own role, or a role with permissions they don't have (HTTP status code 403)
+ * @throws {Error} If the role is not one of the defined roles (HTTP status code 422)
+ * @throws {Error} If the user is not found (HTTP status code 404)
  * @throws {Error} If the update user role request fails (HTTP status code 500)
  *
  * @returns {Object} JSON response indicating successful user role update
@@ -635,14 +998,21 @@ export const updateUserRole = catchAsyncErrors(
     try {
       const { id, role } = req.body;
 
-      await UserService.updateUserRole(res, id, role);
-    } catch (error: any) {
-      return next(
-        new ErrorHandler(
-          `Error processing update user role: ${error.message}`,
-          500
-        )
+      const previousRole = await UserService.updateUserRole(
+        res,
+        roleActorOf(req),
+        id,
+        role
+      );
+
+      await AuditService.record(
+        req,
+        'user.role.update',
+        { type: 'user', id },
+        { from: previousRole, to: role }
       );
+    } catch (error: any) {
+      return next(error);
     }
   }
 );
@@ -666,13 +1036,18 @@ export const deleteUser = catchAsyncErrors(async (req: Request, res: Response, n
   try {
     const { id } = req.params;
 
-    await UserService.deleteUserById(id);
+    const user = await UserService.deleteUserById(id);
+
+    await AuditService.record(req, 'user.delete', { type: 'user', id }, {
+      email: user.email,
+      role: user.role
+    });
 
     res.status(204).json({
       success: true,
       message: 'User deleted successfully'
     })
   } catch (error: any) {
-    return next(new ErrorHandler(`Error processing delete user: ${error.message}`, error.statusCode || 500));
+    return next(error);
   }
 })
@@ -1,8 +1,15 @@
+import crypto from 'crypto';
 import jwt, { JwtPayload } from 'jsonwebtoken';
 import { Request, Response, NextFunction } from 'express';
 import catchAsyncErrors from './catchAsyncErrors';
 import ErrorHandler from '../utils/ErrorHandler';
 import { redis } from '../utils/redis';
+import { getSession, touchSession } from '../utils/session';
+import User from '../models/user.model';
+import Course from '../models/course.model';
+import RoleService from '../services/role.service';
+import { Permission } from '../utils/permissions';
+import { config } from '../utils/config';
 
 export const isAuthenticated = catchAsyncErrors(
   async (req: Request, res: Response, next: NextFunction) => {
@@ -16,30 +23,111 @@ export const isAuthenticated = catchAsyncErrors(
     // decode the token if it exists
     const decoded = jwt.verify(
       accessToken,
-      process.env.ACCESS_TOKEN as string
+      config.auth.accessTokenSecret
     ) as JwtPayload;
 
     if (!decoded) return next(new ErrorHandler('Invalid access token', 401));
 
-    // get the user from redis
-    const user = await redis.get(decoded.id);
+    // the session must not have been logged out or revoked
+    const session = decoded.sid ? await getSession(decoded.sid) : null;
 
-    if (!user) return next(new ErrorHandler('Please login to access this resource', 401));
+    if (!session || session.userId !== decoded.id)
+      return next(new ErrorHandler('Please login to access this resource', 401));
 
-    req.user = JSON.parse(user);
+    await touchSession(session, req);
+
+    // get the user from redis, falling back to mongodb
+    const cachedUser = await redis.get(decoded.id);
+    let user = cachedUser ? JSON.parse(cachedUser) : null;
+
+    if (!user) {
+      user = await User.findById(decoded.id);
+
+      if (!user) return next(new ErrorHandler('Please login to access this resource', 401));
+
+      await redis.set(decoded.id, JSON.stringify(user));
+      user = JSON.parse(JSON.stringify(user));
+    }
+
+    req.user = user;
+    req.sessionId = session.id;
     next();
   }
 );
 
-export const authorizedRoles = (...roles: string[]) => {
-  return (req: Request, res: Response, next: NextFunction) => {
-    if (!roles.includes(req.user?.role || ''))
+const { twoFactorRequiredRoles } = config.auth;
+
+/**
+ * Only let users whose role grants every one of the permissions through,
+ * making the permissions of the role available on req.permissions
+ */
+export const requirePermission = (...required: Permission[]) =>
+  catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
+    const role = req.user?.role || '';
+
+    req.permissions = await RoleService.getPermissions(role);
+
+    if (!required.every((permission) => req.permissions?.includes(permission)))
       return next(
         new ErrorHandler(
-          `Role '${req.user?.role}' is not allowed to access this resource`,
-          403
+          `Role '${role}' is not allowed to access this resource`,
+          403,
+          { code: 'permission_denied' }
         )
       );
+
+    if (twoFactorRequiredRoles.includes(role) && !req.user?.twoFactorEnabled)
+      return next(
+        new ErrorHandler(
+          `Role '${role}' must enable two-factor authentication to access this resource`,
+          403,
+          { code: 'two_factor_required' }
+        )
+      );
+
+    next();
+  });
+
+/**
+ * Only let the owners of the course in the route param through, or anyone with
+ * the course:manage permission, to be used after requirePermission
+ */
+export const authorizedCourseOwner = (param: string = 'id') =>
+  catchAsyncErrors(async (req: Request, res: Response, next: NextFunction) => {
+    if (req.permissions?.includes('course:manage')) return next();
+
+    const course = await Course.findById(req.params[param]).select('owners');
+
+    if (!course) return next(new ErrorHandler('Course not found', 404));
+
+    if (!course.owners?.includes(req.user?._id))
+      return next(
+        new ErrorHandler('You are not an instructor of this course', 403)
+      );
+
     next();
-  };
+  });
+
+// hashed so tokens of any length are compared in constant time
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest();
+
+/**
+ * Only let the metrics scraper through, authenticated by the bearer token set in METRICS_TOKEN.
+ * The metrics are not served at all when no token is set.
+ */
+export const isMetricsScraper = (req: Request, res: Response, next: NextFunction) => {
+  const { metricsToken } = config;
+
+  if (!metricsToken) return next(new ErrorHandler('Not found', 404));
+
+  const [scheme, token] = (req.get('Authorization') || '').split(' ');
+
+  if (
+    scheme !== 'Bearer' ||
+    !token ||
+    !crypto.timingSafeEqual(hashToken(token), hashToken(metricsToken))
+  )
+    return next(new ErrorHandler('Invalid metrics token', 401));
+
+  next();
 };
@@ -1,44 +1,91 @@
+import { STATUS_CODES } from 'http';
 import { NextFunction, Request, Response } from 'express';
 import ErrorHandler from '../utils/ErrorHandler';
+import { logger } from '../utils/logger';
+import { config } from '../utils/config';
 
+/**
+ * Turn the errors of mongoose, jsonwebtoken and the body parser into ErrorHandlers
+ */
+const toErrorHandler = (err: any, req: Request): ErrorHandler => {
+  if (err instanceof ErrorHandler) return err;
+
+  // mongodb id error
+  if (err.name === 'CastError')
+    return new ErrorHandler(`Resource not found. Invalid ID: ${err.value}`, 404);
+
+  // mongoose schema validation error
+  if (err.name === 'ValidationError' && err.errors)
+    return new ErrorHandler(err.message, 422, {
+      details: Object.values(err.errors).map((error: any) => ({
+        field: error.path,
+        message: error.message
+      }))
+    });
+
+  // Duplicate key error
+  if (err.code === 11000)
+    return new ErrorHandler(`Duplicate ${Object.keys(err.keyValue || {})} entered`, 409, {
+      code: 'duplicate_key'
+    });
+
+  // Invalid token error
+  if (err.name === 'JsonWebTokenError')
+    return new ErrorHandler('Invalid token. Please provide a valid token', 401, {
+      code: 'invalid_token'
+    });
+
+  // JWT expired error
+  if (err.name === 'TokenExpiredError')
+    return new ErrorHandler('Expired token. Please log in again', 401, {
+      code: 'token_expired'
+    });
+
+  // e.g the 400 of a malformed JSON body or the 413 of a body too large
+  const statusCode = err.statusCode || err.status || 500;
+
+  // don't leak the internals of unexpected errors in production
+  const message =
+    statusCode >= 500 && config.isProduction
+      ? 'Internal server error'
+      : err.message || 'Internal server error';
+
+  if (statusCode >= 500) logger.error('Unexpected error', { requestId: req.id, error: err });
+
+  return new ErrorHandler(message, statusCode);
+};
+
+/**
+ * Send errors as RFC 7807 problem details, with the machine readable code of the error,
+ * the invalid fields and the id of the request. success and message are kept for older clients.
+ */
 const ErrorMiddleware = (
   err: any,
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
-  err.statusCode = err.statusCode || 500;
-  err.message = err.message || 'Internal server error';
+  const error = toErrorHandler(err, req);
 
-  // mongodb id error
-  if (err.name === 'CastError') {
-    const message = `Resource not found. Invalid ID: ${err.value}`;
-    err = new ErrorHandler(message, 404);
-  }
+  error.requestId = error.requestId || req.id;
 
-  // Duplicate key error
-  if (err.code === 11000) {
-    const message = `Duplicate ${Object.keys(err.keyValue)} entered`;
-    err = new ErrorHandler(message, 409);
-  }
+  if (error.retryAfter) res.set('Retry-After', error.retryAfter.toString());
 
-  // Invalid token error
-  if (err.name === 'JsonWebTokenError') {
-    const message = `Invalid token. Please provide a valid token`;
-    console.log('INVALID TOKEN')
-    err = new ErrorHandler(message, 401);
-  }
-
-  // JWT expired error
-  if (err.name === 'TokenExpiredError') {
-    const message = `Expired token. Please log in again`;
-    err = new ErrorHandler(message, 401);
-  }
-
-  res.status(err.statusCode).json({
-    success: false,
-    message: err.message
-  });
+  res
+    .status(error.statusCode)
+    .type('application/problem+json')
+    .json({
+      type: 'about:blank',
+      title: STATUS_CODES[error.statusCode] || 'Error',
+      status: error.statusCode,
+      detail: error.message,
+      instance: req.originalUrl,
+      code: error.code,
+      requestId: error.requestId,
+      errors: error.details,
+      success: false,
+      message: error.message
+    });
 };
 
 export default ErrorMiddleware;
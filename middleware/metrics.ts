@@ -0,0 +1,22 @@
+import { NextFunction, Request, Response } from 'express';
+import { routeOf } from './requestLogger';
+import { httpRequestDuration, httpRequests } from '../utils/metrics';
+
+/**
+ * Count each request and measure its latency, by route pattern so the number of series stays bounded
+ */
+export const collectMetrics = (req: Request, res: Response, next: NextFunction) => {
+  const start = process.hrtime.bigint();
+
+  res.on('finish', () => {
+    const route = routeOf(req) || 'unmatched';
+
+    httpRequests.inc({ method: req.method, route, status: res.statusCode });
+    httpRequestDuration.observe(
+      { method: req.method, route },
+      Number(process.hrtime.bigint() - start) / 1e9
+    );
+  });
+
+  next();
+};
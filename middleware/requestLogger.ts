@@ -0,0 +1,61 @@
+import crypto from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import { logger } from '../utils/logger';
+
+// the id of the request, as sent by the client or a proxy when it looks safe to echo back
+const getRequestId = (req: Request) => {
+  const header = req.get('X-Request-Id');
+
+  return header && /^[\w.:-]{1,128}$/.test(header) ? header : crypto.randomUUID();
+};
+
+/**
+ * @description The route pattern a request matched e.g '/api/v1/courses/:id', so requests to
+ * the same route are grouped whatever their ids. Read from the original url since the mount path
+ * of a router is reset once an error leaves it.
+ *
+ * @returns The route, or undefined for requests that matched no route
+ */
+export const routeOf = (req: Request): string | undefined => {
+  const path: string | undefined = req.route?.path;
+
+  if (typeof path !== 'string' || path === '*') return undefined;
+
+  const urlSegments = req.originalUrl.split('?')[0].split('/').filter(Boolean);
+  const routeSegments = path.split('/').filter(Boolean);
+  const mountSegments = urlSegments.slice(0, urlSegments.length - routeSegments.length);
+
+  return `/${[...mountSegments, ...routeSegments].join('/')}`;
+};
+
+// polled by load balancers and the metrics scraper, only logged at the debug level
+const probeRoutes = ['/healthz', '/readyz', '/metrics'];
+
+/**
+ * Give each request an id, echoed in the X-Request-Id header, and log it once its response is sent
+ */
+export const requestLogger = (req: Request, res: Response, next: NextFunction) => {
+  const start = process.hrtime.bigint();
+
+  req.id = getRequestId(req);
+  res.set('X-Request-Id', req.id);
+
+  res.on('finish', () => {
+    const route = routeOf(req) || 'unmatched';
+    const fields = {
+      requestId: req.id,
+      method: req.method,
+      route,
+      path: req.originalUrl.split('?')[0],
+      status: res.statusCode,
+      latencyMs: Number(process.hrtime.bigint() - start) / 1e6,
+      userId: req.user?._id?.toString()
+    };
+
+    if (res.statusCode >= 500) logger.error('Request failed', fields);
+    else if (probeRoutes.includes(route)) logger.debug('Request completed', fields);
+    else logger.info('Request completed', fields);
+  });
+
+  next();
+};
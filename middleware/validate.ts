@@ -0,0 +1,44 @@
+import { NextFunction, Request, Response } from 'express';
+import ErrorHandler from '../utils/ErrorHandler';
+import { IFieldError, Schema } from '../utils/schema';
+
+interface IRequestSchemas {
+  body?: Schema<any>;
+  params?: Schema<any>;
+  query?: Schema<any>;
+}
+
+/**
+ * @description Check the body, route params and query string of a request against schemas,
+ * replacing them with the parsed values: unknown fields removed and query numbers read
+ *
+ * @throws {ErrorHandler} With the invalid fields as details (HTTP status code 422)
+ */
+export const validate =
+  (schemas: IRequestSchemas) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    const errors: IFieldError[] = [];
+    const parsed: { [location: string]: any } = {};
+
+    (['params', 'query', 'body'] as const).forEach((location) => {
+      const schema = schemas[location];
+
+      if (schema)
+        parsed[location] = schema.parse(
+          req[location] ?? {},
+          location,
+          errors,
+          location !== 'body'
+        );
+    });
+
+    if (errors.length)
+      return next(
+        new ErrorHandler(errors.map(({ message }) => message).join(', '), 422, {
+          details: errors
+        })
+      );
+
+    Object.assign(req, parsed);
+    next();
+  };
@@ -0,0 +1,50 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+export interface IAuditLog extends Document {
+  // the user who made the change and their role at the time
+  actorId?: string;
+  actorRole?: string;
+  // what was done e.g 'user.role.update', 'course.delete'
+  action: string;
+  resourceType: string;
+  resourceId?: string;
+  // what changed e.g the previous and new role of a user
+  metadata: { [key: string]: any };
+  requestId?: string;
+  ip?: string;
+  createdAt: Date;
+}
+
+const auditLogSchema = new Schema<IAuditLog>(
+  {
+    actorId: {
+      type: String,
+      index: true
+    },
+    actorRole: String,
+    action: {
+      type: String,
+      required: true,
+      index: true
+    },
+    resourceType: {
+      type: String,
+      required: true
+    },
+    resourceId: String,
+    metadata: {
+      type: Schema.Types.Mixed,
+      default: {}
+    },
+    requestId: String,
+    ip: String
+  },
+  // entries are never edited
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+auditLogSchema.index({ resourceType: 1, resourceId: 1, createdAt: -1 });
+
+const auditLogModel: Model<IAuditLog> = mongoose.model('AuditLog', auditLogSchema);
+
+export default auditLogModel;
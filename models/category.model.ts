@@ -0,0 +1,38 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+
+export interface ICategory extends Document {
+  name: string;
+  slug: string;
+  description?: string;
+  // the category this one is nested under, none for top-level categories
+  parent?: Types.ObjectId | null;
+}
+
+const categorySchema = new Schema<ICategory>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Please enter a category name'],
+      trim: true
+    },
+    slug: {
+      type: String,
+      required: true,
+      unique: true,
+      lowercase: true,
+      match: [/^[a-z0-9]+(-[a-z0-9]+)*$/, 'A slug can only contain letters, digits and dashes']
+    },
+    description: String,
+    parent: {
+      type: Schema.Types.ObjectId,
+      ref: 'Category',
+      default: null,
+      index: true
+    }
+  },
+  { timestamps: true }
+);
+
+const categoryModel: Model<ICategory> = mongoose.model('Category', categorySchema);
+
+export default categoryModel;
@@ -0,0 +1,59 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+export interface ICertificate extends Document {
+  serial: string;
+  userId: string;
+  courseId: string;
+  studentName: string;
+  courseName: string;
+  completedAt: Date;
+  emailedAt?: Date;
+  emailAttempts: number;
+}
+
+const certificateSchema = new Schema<ICertificate>(
+  {
+    serial: {
+      type: String,
+      required: true,
+      unique: true
+    },
+    userId: {
+      type: String,
+      required: true
+    },
+    courseId: {
+      type: String,
+      required: true
+    },
+    studentName: {
+      type: String,
+      required: true
+    },
+    courseName: {
+      type: String,
+      required: true
+    },
+    completedAt: {
+      type: Date,
+      required: true
+    },
+    // unset until the certificate email is sent, so a later completion can send it again
+    emailedAt: Date,
+    emailAttempts: {
+      type: Number,
+      default: 0
+    }
+  },
+  { timestamps: true }
+);
+
+// a student gets a single certificate per course
+certificateSchema.index({ userId: 1, courseId: 1 }, { unique: true });
+
+const certificateModel: Model<ICertificate> = mongoose.model(
+  'Certificate',
+  certificateSchema
+);
+
+export default certificateModel;
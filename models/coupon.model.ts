@@ -0,0 +1,60 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+export interface ICoupon extends Document {
+  code: string;
+  type: 'percentage' | 'fixed';
+  value: number;
+  courseId?: string;
+  expiresAt?: Date;
+  maxRedemptions?: number;
+  perUserLimit: number;
+  redemptions: number;
+  isActive: boolean;
+}
+
+const couponSchema = new Schema<ICoupon>(
+  {
+    code: {
+      type: String,
+      required: [true, 'Please enter a coupon code'],
+      unique: true,
+      uppercase: true,
+      trim: true
+    },
+    type: {
+      type: String,
+      enum: ['percentage', 'fixed'],
+      required: true
+    },
+    value: {
+      type: Number,
+      required: true,
+      min: [0, 'Coupon value cannot be negative']
+    },
+    // a coupon without a courseId applies site-wide
+    courseId: String,
+    expiresAt: Date,
+    maxRedemptions: Number,
+    perUserLimit: {
+      type: Number,
+      default: 1
+    },
+    redemptions: {
+      type: Number,
+      default: 0
+    },
+    isActive: {
+      type: Boolean,
+      default: true
+    }
+  },
+  { timestamps: true }
+);
+
+couponSchema.path('value').validate(function (this: ICoupon, value: number) {
+  return this.type !== 'percentage' || value <= 100;
+}, 'A percentage coupon cannot exceed 100');
+
+const couponModel: Model<ICoupon> = mongoose.model('Coupon', couponSchema);
+
+export default couponModel;
@@ -1,4 +1,4 @@
-import mongoose, { Document, Model, Schema } from 'mongoose';
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
 import { IUser } from './user.model';
 
 interface IComment extends Document {
@@ -19,7 +19,9 @@ interface ILink extends Document {
   url: string;
 }
 
-interface ICourseData extends Document {
+export interface ICourseData extends Document {
+  // id of the lesson in the manifest it was imported from
+  externalId?: string;
   title: string;
   description: string;
   videoUrl: string;
@@ -32,7 +34,18 @@ interface ICourseData extends Document {
   questions: IComment[];
 }
 
-interface ICourse extends Document {
+// an ordered group of lessons, the lessons being the course's courseData items
+export interface ISection extends Document {
+  title: string;
+  lessons: Types.ObjectId[];
+}
+
+// draft -> in_review -> published -> archived, archived courses are hidden from sale
+export type CourseStatus = 'draft' | 'in_review' | 'published' | 'archived';
+
+export interface ICourse extends Document {
+  // id of the course in the manifest it was imported from
+  externalId?: string;
   name: string;
   description: string;
   price: number;
@@ -40,6 +53,7 @@ interface ICourse extends Document {
   thumbnail: object;
   tags: string;
   level: string;
+  categories: Types.ObjectId[];
   demoUrl: string;
   benefits: { title: string }[];
   prerequisites: { title: string }[];
@@ -47,6 +61,12 @@ interface ICourse extends Document {
   courseData: ICourseData[];
   ratings?: number;
   purchased?: number;
+  owners: string[];
+  status: CourseStatus;
+  publishAt?: Date;
+  publishedAt?: Date;
+  sections: ISection[];
+  syncSections: () => void;
 }
 
 const reviewSchema = new Schema<IReview>({
@@ -71,6 +91,7 @@ const commentSchema = new Schema<IComment>({
 });
 
 const courseDataSchema = new Schema<ICourseData>({
+  externalId: String,
   videoUrl: String,
   title: String,
   videoSection: String,
@@ -82,7 +103,21 @@ const courseDataSchema = new Schema<ICourseData>({
   questions: [commentSchema]
 });
 
+const sectionSchema = new Schema<ISection>({
+  title: {
+    type: String,
+    required: [true, 'Please enter a section title'],
+    trim: true
+  },
+  lessons: [Schema.Types.ObjectId]
+});
+
 const courseSchema = new Schema<ICourse>({
+  externalId: {
+    type: String,
+    unique: true,
+    sparse: true
+  },
   name: {
     type: String,
     required: true
@@ -114,6 +149,10 @@ const courseSchema = new Schema<ICourse>({
     type: String,
     required: true
   },
+  categories: {
+    type: [{ type: Schema.Types.ObjectId, ref: 'Category' }],
+    index: true
+  },
   demoUrl: {
     type: String,
     required: true
@@ -129,9 +168,89 @@ const courseSchema = new Schema<ICourse>({
   purchased: {
     type: Number,
     default: 0
-  }
+  },
+  // ids of the instructors who can manage the course
+  owners: {
+    type: [String],
+    index: true
+  },
+  status: {
+    type: String,
+    enum: ['draft', 'in_review', 'published', 'archived'],
+    default: 'draft',
+    index: true
+  },
+  // when a course in review is published by the scheduler
+  publishAt: Date,
+  publishedAt: Date,
+  sections: [sectionSchema]
 }, { timestamps: true });
 
+// full-text search over the catalogue, matches in the name rank first
+courseSchema.index(
+  { name: 'text', tags: 'text', description: 'text' },
+  { name: 'course_search', weights: { name: 10, tags: 5, description: 1 } }
+);
+
+/**
+ * Keep the sections and the lessons consistent: drop the lessons that were removed,
+ * file the lessons that are in no section under the section named by their videoSection,
+ * and order courseData like the curriculum
+ */
+courseSchema.methods.syncSections = function (this: ICourse) {
+  const lessonIds = new Set(
+    this.courseData.map((lesson) => lesson._id.toString())
+  );
+  const filed = new Set<string>();
+
+  this.sections.forEach((section) => {
+    section.lessons = section.lessons.filter((id) => {
+      const lessonId = id.toString();
+      const keep = lessonIds.has(lessonId) && !filed.has(lessonId);
+
+      filed.add(lessonId);
+      return keep;
+    });
+  });
+
+  this.courseData.forEach((lesson) => {
+    if (filed.has(lesson._id.toString())) return;
+
+    const title = lesson.videoSection || 'Untitled section';
+    let section = this.sections.find((section) => section.title === title);
+
+    if (!section) {
+      this.sections.push({ title, lessons: [] } as unknown as ISection);
+      section = this.sections[this.sections.length - 1];
+    }
+
+    section.lessons.push(lesson._id);
+  });
+
+  // lessons follow the order of the curriculum and take the title of their section
+  const position = new Map<string, number>();
+
+  this.sections.forEach((section) =>
+    section.lessons.forEach((id) => {
+      position.set(id.toString(), position.size);
+
+      const lesson = this.courseData.find((lesson) => lesson._id.equals(id));
+      if (lesson) lesson.videoSection = section.title;
+    })
+  );
+
+  this.courseData.sort(
+    (a, b) =>
+      (position.get(a._id.toString()) as number) -
+      (position.get(b._id.toString()) as number)
+  );
+};
+
+courseSchema.pre('save', function (next) {
+  this.syncSections();
+  next();
+});
+
 const courseModel: Model<ICourse> = mongoose.model('Course', courseSchema);
 
 export default courseModel;
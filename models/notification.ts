@@ -5,6 +5,7 @@ export interface INotification extends Document {
   message: string;
   status: string;
   userId: Schema.Types.ObjectId;
+  courseId?: string;
 }
 
 const notificationSchema = new Schema<INotification>({
@@ -23,6 +24,11 @@ const notificationSchema = new Schema<INotification>({
   },
   userId: {
     type: mongoose.Schema.Types.ObjectId
+  },
+  // the course the notification is about, so instructors only see their own courses' notifications
+  courseId: {
+    type: String,
+    index: true
   }
 }, {
   timestamps: true
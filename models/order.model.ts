@@ -1,9 +1,32 @@
 import mongoose, { Document, Model, Schema } from 'mongoose';
 
+// refunding while the payment provider refunds the order, so it is refunded only once
+export type OrderStatus = 'pending' | 'paid' | 'failed' | 'refunding' | 'refunded';
+
+export interface IRefundRequest {
+  status: 'pending' | 'approved' | 'rejected';
+  reason?: string;
+  requestedAt: Date;
+  reviewedAt?: Date;
+}
+
 export interface IOrder extends Document {
   courseId: string;
   userId: string;
   payment_info: object;
+  status: OrderStatus;
+  amount: number;
+  currency: string;
+  provider: string;
+  providerReference: string;
+  coupon?: string;
+  discount: number;
+  refundedAmount?: number;
+  refundReference?: string;
+  refundedAt?: Date;
+  refundRequest?: IRefundRequest;
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 const orderSchema = new Schema<IOrder>(
@@ -18,6 +41,45 @@ const orderSchema = new Schema<IOrder>(
     },
     payment_info: {
       type: Object
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'paid', 'failed', 'refunding', 'refunded'],
+      default: 'pending'
+    },
+    amount: {
+      type: Number,
+      required: true
+    },
+    currency: {
+      type: String,
+      required: true
+    },
+    provider: {
+      type: String,
+      required: true
+    },
+    providerReference: {
+      type: String,
+      required: true,
+      unique: true
+    },
+    coupon: String,
+    discount: {
+      type: Number,
+      default: 0
+    },
+    refundedAmount: Number,
+    refundReference: String,
+    refundedAt: Date,
+    refundRequest: {
+      status: {
+        type: String,
+        enum: ['pending', 'approved', 'rejected']
+      },
+      reason: String,
+      requestedAt: Date,
+      reviewedAt: Date
     }
   },
   { timestamps: true }
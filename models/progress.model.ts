@@ -0,0 +1,57 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+export interface ILessonProgress extends Document {
+  contentId: string;
+  completed: boolean;
+  completedAt?: Date;
+  lastPosition: number;
+}
+
+export interface IProgress extends Document {
+  userId: string;
+  courseId: string;
+  lessons: ILessonProgress[];
+  completedAt?: Date;
+}
+
+const lessonProgressSchema = new Schema<ILessonProgress>({
+  contentId: {
+    type: String,
+    required: true
+  },
+  completed: {
+    type: Boolean,
+    default: false
+  },
+  completedAt: Date,
+  lastPosition: {
+    type: Number,
+    default: 0
+  }
+});
+
+const progressSchema = new Schema<IProgress>(
+  {
+    userId: {
+      type: String,
+      required: true
+    },
+    courseId: {
+      type: String,
+      required: true
+    },
+    lessons: [lessonProgressSchema],
+    completedAt: Date
+  },
+  { timestamps: true }
+);
+
+// a user has a single progress record per course
+progressSchema.index({ userId: 1, courseId: 1 }, { unique: true });
+
+const progressModel: Model<IProgress> = mongoose.model(
+  'Progress',
+  progressSchema
+);
+
+export default progressModel;
@@ -0,0 +1,31 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+import { Permission, permissions } from '../utils/permissions';
+
+export interface IRole extends Document {
+  name: string;
+  description?: string;
+  permissions: Permission[];
+}
+
+const roleSchema = new Schema<IRole>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Please enter a role name'],
+      unique: true,
+      lowercase: true,
+      trim: true,
+      match: [/^[a-z][a-z0-9-]*$/, 'A role name can only contain letters, digits and dashes']
+    },
+    description: String,
+    permissions: {
+      type: [{ type: String, enum: permissions }],
+      default: []
+    }
+  },
+  { timestamps: true }
+);
+
+const roleModel: Model<IRole> = mongoose.model('Role', roleSchema);
+
+export default roleModel;
@@ -1,6 +1,7 @@
 import jwt from 'jsonwebtoken';
 import mongoose, { Document, Model, Schema } from 'mongoose';
 import bcrypt from 'bcryptjs';
+import { config } from '../utils/config';
 
 const emailRegexPattern: RegExp = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 
@@ -15,9 +16,20 @@ export interface IUser extends Document {
   role: string;
   isVerified: boolean;
   courses: Array<{ courseId: string }>;
+  socialAccounts: Array<{
+    provider: string;
+    subject: string;
+    email: string;
+    linkedAt: Date;
+  }>;
+  lockedUntil?: Date;
+  lockReason?: string;
+  twoFactorEnabled: boolean;
+  twoFactorSecret?: string;
+  twoFactorBackupCodes: string[];
   comparePassword: (password: string) => Promise<boolean>;
-  signAccessToken: () => string;
-  signRefreshToken: () => string;
+  signAccessToken: (sessionId: string) => string;
+  signRefreshToken: (sessionId: string, tokenId: string) => string;
 }
 
 const userSchema: Schema<IUser> = new mongoose.Schema(
@@ -58,29 +70,69 @@ const userSchema: Schema<IUser> = new mongoose.Schema(
       {
         courseId: String
       }
-    ]
+    ],
+    // identities from social providers, matched by the provider's subject id
+    socialAccounts: [
+      {
+        provider: String,
+        subject: String,
+        email: String,
+        linkedAt: Date
+      }
+    ],
+    // set when the account is locked after too many failed logins
+    lockedUntil: Date,
+    lockReason: String,
+    twoFactorEnabled: {
+      type: Boolean,
+      default: false
+    },
+    twoFactorSecret: {
+      type: String,
+      select: false
+    },
+    // sha256 hashes of the one-time backup codes
+    twoFactorBackupCodes: {
+      type: [String],
+      select: false
+    }
   },
-  { timestamps: true }
+  {
+    timestamps: true,
+    toJSON: {
+      // never send two-factor secrets to the client or the redis cache
+      transform: (doc, ret) => {
+        delete ret.twoFactorSecret;
+        delete ret.twoFactorBackupCodes;
+        return ret;
+      }
+    }
+  }
 );
 
 // Hash password before saving
 userSchema.pre('save', async function (next) {
-  if (!this.isModified('password')) next();
+  if (!this.isModified('password')) return next();
   this.password = await bcrypt.hash(this.password, 10);
   next();
 });
 
 // sign access token
-userSchema.methods.signAccessToken = function () {
-  return jwt.sign({ id: this._id }, process.env.ACCESS_TOKEN || '', {
-    expiresIn: '5m'
+userSchema.methods.signAccessToken = function (sessionId: string) {
+  return jwt.sign({ id: this._id, sid: sessionId }, config.auth.accessTokenSecret, {
+    expiresIn: `${config.auth.accessTokenExpires}m`
   });
 };
 
-userSchema.methods.signRefreshToken = function () {
-  return jwt.sign({ id: this._id }, process.env.REFRESH_TOKEN || '', {
-    expiresIn: '3d'
-  });
+// sign refresh token, identified by tokenId so that reuse can be detected
+userSchema.methods.signRefreshToken = function (sessionId: string, tokenId: string) {
+  return jwt.sign(
+    { id: this._id, sid: sessionId, jti: tokenId },
+    config.auth.refreshTokenSecret,
+    {
+      expiresIn: `${config.auth.refreshTokenExpires}d`
+    }
+  );
 };
 
 // Compare password
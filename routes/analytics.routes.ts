@@ -1,10 +1,10 @@
 import { Router } from "express";
-import { authorizedRoles, isAuthenticated } from "../middleware/auth";
+import { isAuthenticated, requirePermission } from "../middleware/auth";
 import { getCourseAnalytics, getOrderAnalytics, getUserAnalytics } from "../controllers/analytics.controller";
 const router = Router();
 
-router.get('/users', isAuthenticated, authorizedRoles('admin'), getUserAnalytics);
-router.get('/orders', isAuthenticated, authorizedRoles('admin'), getOrderAnalytics);
-router.get('/courses', isAuthenticated, authorizedRoles('admin'), getCourseAnalytics);
+router.get('/users', isAuthenticated, requirePermission('user:read'), getUserAnalytics);
+router.get('/orders', isAuthenticated, requirePermission('analytics:read'), getOrderAnalytics);
+router.get('/courses', isAuthenticated, requirePermission('analytics:read'), getCourseAnalytics);
 
 export default router;
\ No newline at end of file
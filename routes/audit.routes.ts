@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { isAuthenticated, requirePermission } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { listQuery } from '../schemas/common.schema';
+import { index } from '../controllers/audit.controller';
+
+const router = Router();
+
+router.get(
+  '/',
+  isAuthenticated,
+  requirePermission('audit:read'),
+  validate({ query: listQuery }),
+  index
+);
+
+export default router;
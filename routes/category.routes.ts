@@ -0,0 +1,43 @@
+import { Router } from 'express';
+import { isAuthenticated, requirePermission } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import {
+  createCategoryBody,
+  slugParams,
+  updateCategoryBody
+} from '../schemas/category.schema';
+import {
+  courses,
+  create,
+  destroy,
+  index,
+  update
+} from '../controllers/category.controller';
+
+const router = Router();
+
+router.get('/', index);
+router.get('/:slug/courses', validate({ params: slugParams }), courses);
+router.post(
+  '/',
+  isAuthenticated,
+  requirePermission('category:write'),
+  validate({ body: createCategoryBody }),
+  create
+);
+router.put(
+  '/:slug',
+  isAuthenticated,
+  requirePermission('category:write'),
+  validate({ params: slugParams, body: updateCategoryBody }),
+  update
+);
+router.delete(
+  '/:slug',
+  isAuthenticated,
+  requirePermission('category:write'),
+  validate({ params: slugParams }),
+  destroy
+);
+
+export default router;
@@ -0,0 +1,8 @@
+import { Router } from 'express';
+import { verifyCertificate } from '../controllers/certificate.controller';
+
+const router = Router();
+
+router.get('/:serial', verifyCertificate);
+
+export default router;
@@ -0,0 +1,46 @@
+import { Router } from 'express';
+import { isAuthenticated, requirePermission } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { idParams } from '../schemas/common.schema';
+import { createCouponBody, updateCouponBody } from '../schemas/coupon.schema';
+import {
+  create,
+  destroy,
+  index,
+  show,
+  update
+} from '../controllers/coupon.controller';
+
+const router = Router();
+
+router.get('/', isAuthenticated, requirePermission('coupon:write'), index);
+router.post(
+  '/',
+  isAuthenticated,
+  requirePermission('coupon:write'),
+  validate({ body: createCouponBody }),
+  create
+);
+router.get(
+  '/:id',
+  isAuthenticated,
+  requirePermission('coupon:write'),
+  validate({ params: idParams }),
+  show
+);
+router.put(
+  '/:id',
+  isAuthenticated,
+  requirePermission('coupon:write'),
+  validate({ params: idParams, body: updateCouponBody }),
+  update
+);
+router.delete(
+  '/:id',
+  isAuthenticated,
+  requirePermission('coupon:write'),
+  validate({ params: idParams }),
+  destroy
+);
+
+export default router;
@@ -1,41 +1,227 @@
-import { Router } from 'express';
-import { authorizedRoles, isAuthenticated } from '../middleware/auth';
+import express, { Router } from 'express';
+import {
+  authorizedCourseOwner,
+  isAuthenticated,
+  requirePermission
+} from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { idParams } from '../schemas/common.schema';
+import {
+  addLessonBody,
+  addSectionBody,
+  answerBody,
+  answerParams,
+  createCourseBody,
+  importQuery,
+  lessonParams,
+  moveLessonBody,
+  progressBody,
+  questionBody,
+  reorderLessonsBody,
+  reorderSectionsBody,
+  reviewBody,
+  reviewReplyBody,
+  reviewReplyParams,
+  searchQuery,
+  sectionParams,
+  updateCourseBody,
+  updateSectionBody,
+  updateStatusBody
+} from '../schemas/course.schema';
 import {
   update,
   create,
   show,
   index,
   getCourseBoughtByUser,
+  getCourseProgress,
+  updateCourseProgress,
   addQuestion,
   addAnswer,
   addReview,
   addRepliesToReview,
   fetchAllCourses,
-  destroy
+  destroy,
+  updateStatus,
+  preview,
+  search
 } from '../controllers/course.controller';
+import {
+  addLesson,
+  addSection,
+  deleteLesson,
+  deleteSection,
+  moveLesson,
+  reorderLessons,
+  reorderSections,
+  updateSection
+} from '../controllers/curriculum.controller';
+import { importCourses } from '../controllers/import.controller';
 
 const router = Router();
 
-router.post('/', isAuthenticated, authorizedRoles('admin'), create);
+router.post(
+  '/',
+  isAuthenticated,
+  requirePermission('course:write'),
+  validate({ body: createCourseBody }),
+  create
+);
+
+router.post(
+  '/import',
+  isAuthenticated,
+  requirePermission('course:manage'),
+  express.text({ type: 'text/csv', limit: '10mb' }),
+  validate({ query: importQuery }),
+  importCourses
+);
 
 router.get('/', index);
-router.get('/all', isAuthenticated, authorizedRoles('admin'), fetchAllCourses);
+router.get('/search', validate({ query: searchQuery }), search);
+router.get(
+  '/all',
+  isAuthenticated,
+  requirePermission('course:write'),
+  fetchAllCourses
+);
+
+router.put(
+  '/:id',
+  isAuthenticated,
+  requirePermission('course:write'),
+  validate({ params: idParams, body: updateCourseBody }),
+  authorizedCourseOwner(),
+  update
+);
+router.delete(
+  '/:id',
+  isAuthenticated,
+  requirePermission('course:write'),
+  validate({ params: idParams }),
+  authorizedCourseOwner(),
+  destroy
+);
+router.put(
+  '/:id/status',
+  isAuthenticated,
+  requirePermission('course:write'),
+  validate({ params: idParams, body: updateStatusBody }),
+  authorizedCourseOwner(),
+  updateStatus
+);
+router.get(
+  '/:id/preview',
+  isAuthenticated,
+  requirePermission('course:write'),
+  validate({ params: idParams }),
+  authorizedCourseOwner(),
+  preview
+);
 
-router.put('/:id', isAuthenticated, authorizedRoles('admin'), update);
-router.delete('/:id', isAuthenticated, authorizedRoles('admin'), destroy);
-router.get('/:id', show);
-router.get('/:id/content', isAuthenticated, getCourseBoughtByUser);
-router.post('/:id/questions', isAuthenticated, addQuestion);
+// curriculum, only for the course instructors, once the ids in the route are checked
+const courseWriter = [isAuthenticated, requirePermission('course:write')];
+
+router.post(
+  '/:id/sections',
+  ...courseWriter,
+  validate({ params: idParams, body: addSectionBody }),
+  authorizedCourseOwner(),
+  addSection
+);
+router.put(
+  '/:id/sections/order',
+  ...courseWriter,
+  validate({ params: idParams, body: reorderSectionsBody }),
+  authorizedCourseOwner(),
+  reorderSections
+);
+router.put(
+  '/:id/sections/:sectionId',
+  ...courseWriter,
+  validate({ params: sectionParams, body: updateSectionBody }),
+  authorizedCourseOwner(),
+  updateSection
+);
+router.delete(
+  '/:id/sections/:sectionId',
+  ...courseWriter,
+  validate({ params: sectionParams }),
+  authorizedCourseOwner(),
+  deleteSection
+);
+router.post(
+  '/:id/sections/:sectionId/lessons',
+  ...courseWriter,
+  validate({ params: sectionParams, body: addLessonBody }),
+  authorizedCourseOwner(),
+  addLesson
+);
+router.put(
+  '/:id/sections/:sectionId/lessons/order',
+  ...courseWriter,
+  validate({ params: sectionParams, body: reorderLessonsBody }),
+  authorizedCourseOwner(),
+  reorderLessons
+);
+router.put(
+  '/:id/lessons/:lessonId/move',
+  ...courseWriter,
+  validate({ params: lessonParams, body: moveLessonBody }),
+  authorizedCourseOwner(),
+  moveLesson
+);
+router.delete(
+  '/:id/lessons/:lessonId',
+  ...courseWriter,
+  validate({ params: lessonParams }),
+  authorizedCourseOwner(),
+  deleteLesson
+);
+
+router.get('/:id', validate({ params: idParams }), show);
+router.get(
+  '/:id/content',
+  isAuthenticated,
+  validate({ params: idParams }),
+  getCourseBoughtByUser
+);
+router.get(
+  '/:id/progress',
+  isAuthenticated,
+  validate({ params: idParams }),
+  getCourseProgress
+);
+router.put(
+  '/:id/progress',
+  isAuthenticated,
+  validate({ params: idParams, body: progressBody }),
+  updateCourseProgress
+);
+router.post(
+  '/:id/questions',
+  isAuthenticated,
+  validate({ params: idParams, body: questionBody }),
+  addQuestion
+);
 router.post(
   '/:courseId/questions/:questionId/answers',
   isAuthenticated,
+  validate({ params: answerParams, body: answerBody }),
   addAnswer
 );
-router.post('/:id/reviews', isAuthenticated, addReview);
+router.post(
+  '/:id/reviews',
+  isAuthenticated,
+  validate({ params: idParams, body: reviewBody }),
+  addReview
+);
 router.post(
   '/:courseId/reviews/:reviewId/replies',
   isAuthenticated,
-  authorizedRoles('admin'),
+  requirePermission('course:write'),
+  validate({ params: reviewReplyParams, body: reviewReplyBody }),
+  authorizedCourseOwner('courseId'),
   addRepliesToReview
 );
 
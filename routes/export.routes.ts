@@ -0,0 +1,35 @@
+import { Router } from 'express';
+import { isAuthenticated, requirePermission } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { exportQuery } from '../schemas/common.schema';
+import {
+  exportCourses,
+  exportOrders,
+  exportUsers
+} from '../controllers/export.controller';
+
+const router = Router();
+
+router.get(
+  '/users',
+  isAuthenticated,
+  requirePermission('user:read'),
+  validate({ query: exportQuery }),
+  exportUsers
+);
+router.get(
+  '/orders',
+  isAuthenticated,
+  requirePermission('order:read'),
+  validate({ query: exportQuery }),
+  exportOrders
+);
+router.get(
+  '/courses',
+  isAuthenticated,
+  requirePermission('course:manage'),
+  validate({ query: exportQuery }),
+  exportCourses
+);
+
+export default router;
@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import catchAsyncErrors from '../middleware/catchAsyncErrors';
+import { isMetricsScraper } from '../middleware/auth';
+import { healthz, metrics, readyz } from '../controllers/health.controller';
+
+const router = Router();
+
+router.get('/healthz', healthz);
+router.get('/readyz', catchAsyncErrors(readyz));
+router.get('/metrics', isMetricsScraper, metrics);
+
+export default router;
@@ -1,10 +1,18 @@
 import { Router } from 'express';
-import { authorizedRoles, isAuthenticated } from '../middleware/auth';
+import { isAuthenticated, requirePermission } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { createLayoutBody, layoutQuery } from '../schemas/layout.schema';
 import { createLayout, getLayoutByType } from '../controllers/layout.controller';
 
 const router = Router();
 
-router.post('/', isAuthenticated, authorizedRoles('admin'), createLayout);
-router.get('/', getLayoutByType);
+router.post(
+  '/',
+  isAuthenticated,
+  requirePermission('layout:write'),
+  validate({ body: createLayoutBody }),
+  createLayout
+);
+router.get('/', validate({ query: layoutQuery }), getLayoutByType);
 
 export default router;
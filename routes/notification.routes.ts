@@ -1,10 +1,12 @@
 import express from 'express';
 
-import { authorizedRoles, isAuthenticated } from '../middleware/auth';
+import { isAuthenticated, requirePermission } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { idParams } from '../schemas/common.schema';
 import { getNotifications, markAsRead } from '../controllers/notification.controller';
 const notificationRouter = express.Router();
 
-notificationRouter.get('/', isAuthenticated, authorizedRoles('admin'), getNotifications);
-notificationRouter.put('/:id/mark-as-read', isAuthenticated, authorizedRoles('admin'), markAsRead);
+notificationRouter.get('/', isAuthenticated, requirePermission('notification:read'), getNotifications);
+notificationRouter.put('/:id/mark-as-read', isAuthenticated, requirePermission('notification:read'), validate({ params: idParams }), markAsRead);
 
 export default notificationRouter;
@@ -1,9 +1,30 @@
 import express from 'express';
-import { create, index } from '../controllers/order.controller';
-import { authorizedRoles, isAuthenticated } from '../middleware/auth';
+import {
+  create,
+  index,
+  paymentWebhook,
+  quote,
+  refundOrder,
+  requestRefund,
+  reviewRefundRequest
+} from '../controllers/order.controller';
+import { isAuthenticated, requirePermission } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { idParams } from '../schemas/common.schema';
+import {
+  createOrderBody,
+  refundBody,
+  refundRequestBody,
+  reviewRefundRequestBody
+} from '../schemas/order.schema';
 const orderRouter = express.Router();
 
-orderRouter.post('/', isAuthenticated, create)
-orderRouter.get('/', isAuthenticated, authorizedRoles('admin'), index);
+orderRouter.post('/', isAuthenticated, validate({ body: createOrderBody }), create)
+orderRouter.post('/quote', isAuthenticated, validate({ body: createOrderBody }), quote);
+orderRouter.post('/webhook', paymentWebhook);
+orderRouter.get('/', isAuthenticated, requirePermission('order:read'), index);
+orderRouter.post('/:id/refund', isAuthenticated, requirePermission('order:refund'), validate({ params: idParams, body: refundBody }), refundOrder);
+orderRouter.post('/:id/refund-request', isAuthenticated, validate({ params: idParams, body: refundRequestBody }), requestRefund);
+orderRouter.put('/:id/refund-request', isAuthenticated, requirePermission('order:refund'), validate({ params: idParams, body: reviewRefundRequestBody }), reviewRefundRequest);
 
 export default orderRouter;
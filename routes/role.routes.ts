@@ -0,0 +1,32 @@
+import { Router } from 'express';
+import { isAuthenticated, requirePermission } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { createRoleBody, roleParams, updateRoleBody } from '../schemas/role.schema';
+import { create, destroy, index, update } from '../controllers/role.controller';
+
+const router = Router();
+
+router.get('/', isAuthenticated, requirePermission('role:write'), index);
+router.post(
+  '/',
+  isAuthenticated,
+  requirePermission('role:write'),
+  validate({ body: createRoleBody }),
+  create
+);
+router.put(
+  '/:name',
+  isAuthenticated,
+  requirePermission('role:write'),
+  validate({ params: roleParams, body: updateRoleBody }),
+  update
+);
+router.delete(
+  '/:name',
+  isAuthenticated,
+  requirePermission('role:write'),
+  validate({ params: roleParams }),
+  destroy
+);
+
+export default router;
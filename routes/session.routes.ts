@@ -0,0 +1,10 @@
+import { Router } from 'express';
+import { isAuthenticated } from '../middleware/auth';
+import { destroy, index } from '../controllers/session.controller';
+
+const router = Router();
+
+router.get('/', isAuthenticated, index);
+router.delete('/:id', isAuthenticated, destroy);
+
+export default router;
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { isAuthenticated } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { twoFactorCodeBody, twoFactorLoginBody } from '../schemas/twoFactor.schema';
+import {
+  disableTwoFactor,
+  loginTwoFactor,
+  setupTwoFactor,
+  verifyTwoFactor
+} from '../controllers/twoFactor.controller';
+
+const router = Router();
+
+router.post('/setup', isAuthenticated, setupTwoFactor);
+router.post('/verify', isAuthenticated, validate({ body: twoFactorCodeBody }), verifyTwoFactor);
+router.post('/disable', isAuthenticated, validate({ body: twoFactorCodeBody }), disableTwoFactor);
+router.post('/login', validate({ body: twoFactorLoginBody }), loginTwoFactor);
+
+export default router;
@@ -3,42 +3,81 @@ import express from 'express';
 import {
   activateUser,
   deleteUser,
+  forgotPassword,
   getUserInfo,
   index,
   loginUser,
   logoutUser,
   registerUser,
+  resetPassword,
   socialAuth,
+  unlockAccount,
   updateAccessToken,
   updatePassword,
   updateProfilePicture,
   updateUserInfo,
   updateUserRole
 } from '../controllers/user.controller';
-import { authorizedRoles, isAuthenticated } from '../middleware/auth';
+import { isAuthenticated, requirePermission } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { idParams } from '../schemas/common.schema';
+import {
+  activationBody,
+  forgotPasswordBody,
+  loginBody,
+  registrationBody,
+  resetPasswordBody,
+  socialAuthBody,
+  unlockAccountBody,
+  updatePasswordBody,
+  updateProfilePictureBody,
+  updateUserInfoBody,
+  updateUserRoleBody
+} from '../schemas/user.schema';
 const router = express.Router();
 
-router.get('/users', isAuthenticated, authorizedRoles('admin'), index);
-router.post('/register', registerUser);
-router.post('/activate-user', activateUser);
-router.post('/login', loginUser);
+router.get('/users', isAuthenticated, requirePermission('user:read'), index);
+router.post('/register', validate({ body: registrationBody }), registerUser);
+router.post('/activate-user', validate({ body: activationBody }), activateUser);
+router.post('/login', validate({ body: loginBody }), loginUser);
+router.post('/forgot-password', validate({ body: forgotPasswordBody }), forgotPassword);
+router.post('/reset-password', validate({ body: resetPasswordBody }), resetPassword);
+router.post('/unlock-account', validate({ body: unlockAccountBody }), unlockAccount);
 router.get('/logout', isAuthenticated, logoutUser);
 router.get('/refresh-token', updateAccessToken);
 router.get('/me', isAuthenticated, getUserInfo);
-router.post('/social-auth', socialAuth);
-router.put('/update-user-info', isAuthenticated, updateUserInfo);
-router.put('/update-password', isAuthenticated, updatePassword);
-router.put('/update-user-avatar', isAuthenticated, updateProfilePicture);
+router.post('/social-auth', validate({ body: socialAuthBody }), socialAuth);
+router.put(
+  '/update-user-info',
+  isAuthenticated,
+  validate({ body: updateUserInfoBody }),
+  updateUserInfo
+);
+router.put(
+  '/update-password',
+  isAuthenticated,
+  validate({ body: updatePasswordBody }),
+  updatePassword
+);
+router.put(
+  '/update-user-avatar',
+  isAuthenticated,
+  validate({ body: updateProfilePictureBody }),
+  updateProfilePicture
+);
 router.put(
   '/update-user-role',
   isAuthenticated,
-  authorizedRoles('admin'),
+  // granting a role is managing roles
+  requirePermission('user:write', 'role:write'),
+  validate({ body: updateUserRoleBody }),
   updateUserRole
 );
 router.delete(
   '/users/:id',
   isAuthenticated,
-  authorizedRoles('admin'),
+  requirePermission('user:delete'),
+  validate({ params: idParams }),
   deleteUser
 );
 
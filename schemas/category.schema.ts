@@ -0,0 +1,16 @@
+import { Infer, v } from '../utils/schema';
+
+const categoryFields = {
+  name: v.string({ max: 100 }),
+  slug: v.string({ max: 100 }).optional(),
+  description: v.string({ min: 0, max: 1000 }).optional(),
+  parent: v.objectId().nullable().optional()
+};
+
+export const slugParams = v.object({ slug: v.string({ max: 100 }) });
+
+export const createCategoryBody = v.object(categoryFields);
+export type ICreateCategoryBody = Infer<typeof createCategoryBody>;
+
+export const updateCategoryBody = v.partial(categoryFields);
+export type IUpdateCategoryBody = Infer<typeof updateCategoryBody>;
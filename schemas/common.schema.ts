@@ -0,0 +1,31 @@
+import { Infer, v } from '../utils/schema';
+
+// the :id route param of a document
+export const idParams = v.object({ id: v.objectId() });
+
+// a course link or lesson resource
+export const linkSchema = v.object({
+  title: v.string({ max: 200 }),
+  url: v.string({ max: 2000 })
+});
+
+// the pagination and sort of a listing, its filters are checked against the list options
+// of the resource by parseListQuery
+const listFields = {
+  page: v.number({ min: 1, integer: true }).optional(),
+  limit: v.number({ min: 1, integer: true }).optional(),
+  sort: v.string({ max: 100 }).optional()
+};
+
+export const listQuery = v.object(listFields, { passthrough: true });
+
+export const exportQuery = v.object(
+  {
+    ...listFields,
+    format: v.oneOf(['csv', 'ndjson'] as const).optional(),
+    // comma separated column names
+    columns: v.string({ max: 1000 }).optional()
+  },
+  { passthrough: true }
+);
+export type IExportQuery = Infer<typeof exportQuery>;
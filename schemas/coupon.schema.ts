@@ -0,0 +1,19 @@
+import { Infer, v } from '../utils/schema';
+
+const couponFields = {
+  code: v.string({ max: 50 }),
+  type: v.oneOf(['percentage', 'fixed'] as const),
+  value: v.number({ min: 0 }),
+  // a coupon without a courseId applies site-wide
+  courseId: v.objectId().nullable().optional(),
+  expiresAt: v.date().nullable().optional(),
+  maxRedemptions: v.number({ min: 1, integer: true }).nullable().optional(),
+  perUserLimit: v.number({ min: 1, integer: true }).optional(),
+  isActive: v.boolean().optional()
+};
+
+export const createCouponBody = v.object(couponFields);
+export type ICreateCouponBody = Infer<typeof createCouponBody>;
+
+export const updateCouponBody = v.partial(couponFields);
+export type IUpdateCouponBody = Infer<typeof updateCouponBody>;
@@ -0,0 +1,124 @@
+import { Infer, v } from '../utils/schema';
+import { linkSchema } from './common.schema';
+import { searchSorts } from '../services/course.service';
+
+const lessonFields = {
+  title: v.string({ max: 200 }),
+  description: v.string({ min: 0, max: 10000 }).optional(),
+  videoUrl: v.string({ max: 2000 }),
+  videoThumbnail: v.any().optional(),
+  videoSection: v.string({ max: 200 }).optional(),
+  videoLength: v.number({ min: 0 }).optional(),
+  videoPlayer: v.string({ min: 0, max: 100 }).optional(),
+  links: v.array(linkSchema).optional(),
+  suggestion: v.string({ min: 0, max: 10000 }).optional()
+};
+
+const titles = v.array(v.object({ title: v.string({ max: 500 }) }));
+
+const courseFields = {
+  name: v.string({ max: 200 }),
+  description: v.string({ max: 20000 }),
+  price: v.number({ min: 0 }),
+  estimatedPrice: v.number({ min: 0 }).optional(),
+  // a data url to upload
+  thumbnail: v.any().optional(),
+  tags: v.string({ max: 500 }),
+  level: v.string({ max: 50 }),
+  categories: v.array(v.objectId()).optional(),
+  demoUrl: v.string({ max: 2000 }),
+  benefits: titles.optional(),
+  prerequisites: titles.optional(),
+  // resubmitted lessons keep their _id and questions
+  courseData: v.array(v.object(lessonFields, { passthrough: true })).optional(),
+  owners: v.array(v.objectId()).optional()
+};
+
+export const createCourseBody = v.object(courseFields);
+export type ICreateCourseBody = Infer<typeof createCourseBody>;
+
+export const updateCourseBody = v.partial(courseFields);
+export type IUpdateCourseBody = Infer<typeof updateCourseBody>;
+
+export const updateStatusBody = v.object({
+  status: v.oneOf(['draft', 'in_review', 'published', 'archived'] as const),
+  publishAt: v.date().optional()
+});
+export type IUpdateStatusBody = Infer<typeof updateStatusBody>;
+
+export const searchQuery = v.object({
+  q: v.string({ min: 0, max: 200 }).optional(),
+  level: v.string({ max: 50 }).optional(),
+  category: v.string({ max: 100 }).optional(),
+  minPrice: v.number({ min: 0 }).optional(),
+  maxPrice: v.number({ min: 0 }).optional(),
+  minRating: v.number({ min: 0, max: 5 }).optional(),
+  sort: v.oneOf(Object.keys(searchSorts)).optional(),
+  page: v.number({ min: 1, integer: true }).optional(),
+  limit: v.number({ min: 1, max: 100, integer: true }).optional()
+});
+export type ISearchQuery = Infer<typeof searchQuery>;
+
+export const progressBody = v.object({
+  contentId: v.objectId(),
+  completed: v.boolean().optional(),
+  position: v.number({ min: 0 }).optional()
+});
+export type IUpdateProgressData = Infer<typeof progressBody>;
+
+export const questionBody = v.object({
+  question: v.string({ max: 5000 }),
+  contentId: v.objectId()
+});
+export type IAddQuestionData = Infer<typeof questionBody>;
+
+export const answerParams = v.object({
+  courseId: v.objectId(),
+  questionId: v.objectId()
+});
+
+export const answerBody = v.object({
+  answer: v.string({ max: 5000 }),
+  contentId: v.objectId()
+});
+export type IAddAnswerData = Infer<typeof answerBody>;
+
+export const reviewBody = v.object({
+  review: v.string({ max: 5000 }),
+  rating: v.number({ min: 1, max: 5, integer: true })
+});
+export type IAddReviewData = Infer<typeof reviewBody>;
+
+export const reviewReplyParams = v.object({
+  courseId: v.objectId(),
+  reviewId: v.objectId()
+});
+
+export const reviewReplyBody = v.object({ comment: v.string({ max: 5000 }) });
+export type IReviewReplyBody = Infer<typeof reviewReplyBody>;
+
+export const importQuery = v.object({ dryRun: v.boolean().optional() });
+export type IImportQuery = Infer<typeof importQuery>;
+
+// curriculum
+
+export const sectionParams = v.object({ id: v.objectId(), sectionId: v.objectId() });
+
+export const lessonParams = v.object({ id: v.objectId(), lessonId: v.objectId() });
+
+const position = v.number({ min: 0, integer: true }).optional();
+
+export const addSectionBody = v.object({ title: v.string({ max: 200 }), position });
+export type IAddSectionBody = Infer<typeof addSectionBody>;
+
+export const updateSectionBody = v.object({ title: v.string({ max: 200 }) });
+
+export const reorderSectionsBody = v.object({ sectionIds: v.array(v.objectId()) });
+
+export const addLessonBody = v.object({ ...lessonFields, position });
+export type IAddLessonBody = Infer<typeof addLessonBody>;
+
+export const reorderLessonsBody = v.object({ lessonIds: v.array(v.objectId()) });
+
+export const moveLessonBody = v.object({ sectionId: v.objectId(), position });
+export type IMoveLessonBody = Infer<typeof moveLessonBody>;
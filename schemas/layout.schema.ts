@@ -0,0 +1,26 @@
+import { Infer, v } from '../utils/schema';
+
+export const createLayoutBody = v.variant('type', {
+  banner: v.object({
+    image: v.string(),
+    title: v.string({ max: 200 }),
+    subtitle: v.string({ min: 0, max: 500 }).optional()
+  }),
+  faq: v.object({
+    data: v.array(
+      v.object({
+        question: v.string({ max: 500 }),
+        answer: v.string({ max: 5000 })
+      }),
+      { min: 1 }
+    )
+  }),
+  // rejected by the controller, categories are managed at /api/v1/categories
+  categories: v.object({})
+});
+export type ICreateLayoutBody = Infer<typeof createLayoutBody>;
+
+export const layoutQuery = v.object({
+  type: v.oneOf(['banner', 'faq', 'categories'] as const)
+});
+export type ILayoutQuery = Infer<typeof layoutQuery>;
@@ -0,0 +1,23 @@
+import { Infer, v } from '../utils/schema';
+
+export const createOrderBody = v.object({
+  courseId: v.objectId(),
+  couponCode: v.string({ max: 50 }).optional()
+});
+export type ICreateOrderBody = Infer<typeof createOrderBody>;
+
+export const refundBody = v.object({
+  amount: v.number({ min: 0 }).optional()
+});
+export type IRefundBody = Infer<typeof refundBody>;
+
+export const refundRequestBody = v.object({
+  reason: v.string({ max: 1000 }).optional()
+});
+export type IRefundRequestBody = Infer<typeof refundRequestBody>;
+
+export const reviewRefundRequestBody = v.object({
+  status: v.oneOf(['approved', 'rejected'] as const),
+  amount: v.number({ min: 0 }).optional()
+});
+export type IReviewRefundRequestBody = Infer<typeof reviewRefundRequestBody>;
@@ -0,0 +1,25 @@
+import { Infer, v } from '../utils/schema';
+import { permissions } from '../utils/permissions';
+
+// the same rule as the role model, so a valid name is never refused when saved
+const roleName = () =>
+  v.string({
+    max: 50,
+    pattern: /^[a-z][a-z0-9-]*$/,
+    message: 'The role name must start with a lowercase letter and only contain lowercase letters, digits and -'
+  });
+
+export const roleParams = v.object({ name: roleName() });
+
+export const createRoleBody = v.object({
+  name: roleName(),
+  description: v.string({ min: 0, max: 500 }).optional(),
+  permissions: v.array(v.oneOf(permissions))
+});
+export type ICreateRoleBody = Infer<typeof createRoleBody>;
+
+export const updateRoleBody = v.object({
+  description: v.string({ min: 0, max: 500 }).optional(),
+  permissions: v.array(v.oneOf(permissions)).optional()
+});
+export type IUpdateRoleBody = Infer<typeof updateRoleBody>;
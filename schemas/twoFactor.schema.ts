@@ -0,0 +1,12 @@
+import { Infer, v } from '../utils/schema';
+
+// a TOTP code or a backup code
+const code = v.string({ max: 20 });
+
+export const twoFactorCodeBody = v.object({ code });
+
+export const twoFactorLoginBody = v.object({
+  challenge_token: v.string(),
+  code
+});
+export type ITwoFactorLoginRequest = Infer<typeof twoFactorLoginBody>;
@@ -0,0 +1,62 @@
+import { Infer, v } from '../utils/schema';
+
+const password = v.string({ min: 6, max: 128, trim: false });
+
+export const registrationBody = v.object({
+  name: v.string({ max: 100 }),
+  email: v.email(),
+  password,
+  avatar: v.string().optional()
+});
+export type IRegistrationBody = Infer<typeof registrationBody>;
+
+export const activationBody = v.object({
+  activation_token: v.string(),
+  activation_code: v.string({ max: 10 })
+});
+export type IActivationRequest = Infer<typeof activationBody>;
+
+export const loginBody = v.object({
+  email: v.email(),
+  password: v.string({ trim: false })
+});
+export type ILoginRequest = Infer<typeof loginBody>;
+
+export const unlockAccountBody = v.object({ token: v.string() });
+
+export const socialAuthBody = v.object({
+  provider: v.string({ max: 50 }),
+  idToken: v.string(),
+  password: v.string({ trim: false }).optional()
+});
+export type ISocialAuthBody = Infer<typeof socialAuthBody>;
+
+export const updateUserInfoBody = v.object({
+  name: v.string({ max: 100 }).optional(),
+  email: v.email().optional()
+});
+export type IUpdateUserInfo = Infer<typeof updateUserInfoBody>;
+
+export const updatePasswordBody = v.object({
+  oldPassword: v.string({ trim: false }),
+  newPassword: password
+});
+export type IUpdatePassword = Infer<typeof updatePasswordBody>;
+
+export const forgotPasswordBody = v.object({ email: v.email() });
+export type IForgotPasswordRequest = Infer<typeof forgotPasswordBody>;
+
+export const resetPasswordBody = v.object({
+  reset_token: v.string(),
+  reset_code: v.string({ max: 10 }),
+  password
+});
+export type IResetPasswordRequest = Infer<typeof resetPasswordBody>;
+
+export const updateProfilePictureBody = v.object({ avatar: v.string() });
+export type IUpdateProfilePicture = Infer<typeof updateProfilePictureBody>;
+
+export const updateUserRoleBody = v.object({
+  id: v.objectId(),
+  role: v.string({ max: 50 })
+});
@@ -1,21 +1,44 @@
 import { v2 as cloudinary } from 'cloudinary';
 
 import { app } from "./app";
-import connectDB from "./utils/db";
+import { connectDataStores, handleShutdown, scheduleJobs } from "./utils/lifecycle";
+import RoleService from "./services/role.service";
+import CourseService from "./services/course.service";
+import CategoryService from "./services/category.service";
+import { logger } from "./utils/logger";
+import { config } from "./utils/config";
 
 // cloudinary config
 cloudinary.config({
-  cloud_name: process.env.CLOUDINARY_NAME,
-  api_key: process.env.CLOUDINARY_API_KEY,
-  api_secret: process.env.CLOUDINARY_SECRET_KEY
+  cloud_name: config.cloudinary.name,
+  api_key: config.cloudinary.apiKey,
+  api_secret: config.cloudinary.secretKey
 });
 
-const PORT = process.env.PORT || 8000;
+const PORT = config.port;
 
-// create server
-app.listen(process.env.PORT, async () => {
-  console.log(`app started on port ${PORT}`)
-  await connectDB();
+const start = async () => {
+  // only accept traffic once the data stores are reachable
+  await connectDataStores();
+
+  // create the default roles and grant the admin role any new permission
+  await RoleService.ensureDefaultRoles().catch((error) => logger.error('Failed to create the default roles', { error }));
+  await CourseService.publishLegacyCourses().catch((error) => logger.error('Failed to publish the legacy courses', { error }));
+  await CategoryService.importLayoutCategories().catch((error) => logger.error('Failed to import the layout categories', { error }));
+
+  scheduleJobs();
+
+  // create server
+  const server = app.listen(PORT, () => {
+    logger.info('App started', { port: PORT })
+  })
+
+  handleShutdown(server);
+}
+
+start().catch((error) => {
+  logger.error('App failed to start', { error })
+  process.exit(1)
 })
 
 export { cloudinary }
\ No newline at end of file
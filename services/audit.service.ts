@@ -0,0 +1,52 @@
+import { Request } from 'express';
+import AuditLog from '../models/auditLog.model';
+import { logger } from '../utils/logger';
+import { IListOptions, IListQuery, paginate } from '../utils/listQuery';
+
+export const auditLogListOptions: IListOptions = {
+  filters: {
+    actorId: 'string',
+    action: 'string',
+    resourceType: 'string',
+    resourceId: 'string',
+    createdAt: 'date'
+  },
+  sorts: ['createdAt']
+};
+
+class AuditService {
+  /**
+   * @description Record an admin change in the audit log, with who made it and the request it was made by.
+   * A failure to record is logged rather than failing the change, which has already been made.
+   *
+   * @param {Request} req - The request that made the change
+   * @param {string} action - What was done e.g 'course.update'
+   * @param {Object} resource - The type and id of the changed resource
+   * @param {Object} metadata - What changed
+   */
+  record = async (
+    req: Request,
+    action: string,
+    resource: { type: string; id?: string },
+    metadata: { [key: string]: any } = {}
+  ) => {
+    try {
+      await AuditLog.create({
+        actorId: req.user?._id?.toString(),
+        actorRole: req.user?.role,
+        action,
+        resourceType: resource.type,
+        resourceId: resource.id,
+        metadata,
+        requestId: req.id,
+        ip: req.ip
+      });
+    } catch (error: any) {
+      logger.error('Failed to record audit log', { requestId: req.id, action, error });
+    }
+  };
+
+  getAuditLogs = async (listQuery: IListQuery) => paginate(AuditLog, listQuery);
+}
+
+export default new AuditService();
@@ -0,0 +1,217 @@
+import { Types } from 'mongoose';
+
+import Category, { ICategory } from '../models/category.model';
+import Course from '../models/course.model';
+import Layout from '../models/layout.model';
+import ErrorHandler from '../utils/ErrorHandler';
+import {
+  ICreateCategoryBody,
+  IUpdateCategoryBody
+} from '../schemas/category.schema';
+
+export interface ICategoryNode {
+  _id: Types.ObjectId;
+  name: string;
+  slug: string;
+  description?: string;
+  children: ICategoryNode[];
+}
+
+// e.g 'Web Development & Design' -> 'web-development-design'
+export const slugify = (value: string) =>
+  value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+class CategoryService {
+  /**
+   * @description Get the categories nested under their parents, sorted by name
+   */
+  getCategoryTree = async () => {
+    const categories = await Category.find().sort({ name: 1 }).lean();
+
+    const nodes = new Map<string, ICategoryNode>(
+      categories.map((category) => [
+        category._id.toString(),
+        {
+          _id: category._id,
+          name: category.name,
+          slug: category.slug,
+          description: category.description,
+          children: []
+        }
+      ])
+    );
+
+    const roots: ICategoryNode[] = [];
+
+    categories.forEach((category) => {
+      const node = nodes.get(category._id.toString()) as ICategoryNode;
+      const parent = category.parent && nodes.get(category.parent.toString());
+
+      if (parent) parent.children.push(node);
+      else roots.push(node);
+    });
+
+    return roots;
+  };
+
+  /**
+   * @description Find a category by its slug, or by its id
+   *
+   * @throws {ErrorHandler} If the category is not found (HTTP status code 404)
+   */
+  getCategory = async (slugOrId: string) => {
+    const category = await Category.findOne(
+      Types.ObjectId.isValid(slugOrId)
+        ? { $or: [{ slug: slugOrId }, { _id: slugOrId }] }
+        : { slug: slugOrId }
+    );
+
+    if (!category) throw new ErrorHandler('Category not found', 404);
+
+    return category;
+  };
+
+  /**
+   * @description Get the ids of a category and of every category nested under it
+   */
+  getDescendantIds = async (id: Types.ObjectId) => {
+    const ids = [id];
+
+    for (let i = 0; i < ids.length; i++) {
+      const children = await Category.find({ parent: ids[i] }).select('_id');
+      ids.push(...children.map((child) => child._id));
+    }
+
+    return ids;
+  };
+
+  /**
+   * @description Make sure every id is the id of an existing category
+   *
+   * @throws {ErrorHandler} If an id is not the id of a category (HTTP status code 422)
+   */
+  assertCategoriesExist = async (ids: string[]) => {
+    if (!Array.isArray(ids) || ids.some((id) => !Types.ObjectId.isValid(id)))
+      throw new ErrorHandler('Categories must be a list of category ids', 422);
+
+    const count = await Category.countDocuments({ _id: { $in: ids } });
+
+    if (count !== new Set(ids).size)
+      throw new ErrorHandler('Some of the categories do not exist', 422);
+  };
+
+  /**
+   * @throws {ErrorHandler} If the parent doesn't exist or is the category or one of its descendants (HTTP status code 422)
+   */
+  private assertValidParent = async (parent: any, category?: ICategory) => {
+    if (!parent) return;
+
+    if (!Types.ObjectId.isValid(parent) || !(await Category.exists({ _id: parent })))
+      throw new ErrorHandler('The parent category does not exist', 422);
+
+    if (category) {
+      const descendants = await this.getDescendantIds(category._id);
+
+      if (descendants.some((id) => id.equals(parent)))
+        throw new ErrorHandler(
+          'A category cannot be nested under itself or one of its subcategories',
+          422
+        );
+    }
+  };
+
+  /**
+   * @description Create a category, its slug is made from its name unless given
+   *
+   * @throws {ErrorHandler} If a category with the same slug exists (HTTP status code 409)
+   */
+  createCategory = async (data: ICreateCategoryBody) => {
+    const slug = slugify(data.slug || data.name);
+
+    if (slug && (await Category.exists({ slug })))
+      throw new ErrorHandler(`A category with the slug '${slug}' already exists`, 409);
+
+    await this.assertValidParent(data.parent);
+
+    return Category.create({ ...data, slug });
+  };
+
+  /**
+   * @throws {ErrorHandler} If the category is not found (HTTP status code 404)
+   * @throws {ErrorHandler} If a category with the same slug exists (HTTP status code 409)
+   */
+  updateCategory = async (slugOrId: string, data: IUpdateCategoryBody) => {
+    const category = await this.getCategory(slugOrId);
+
+    if (data.slug !== undefined) {
+      const slug = slugify(data.slug);
+
+      if (await Category.exists({ slug, _id: { $ne: category._id } }))
+        throw new ErrorHandler(`A category with the slug '${slug}' already exists`, 409);
+
+      category.slug = slug;
+    }
+
+    if (data.parent !== undefined) {
+      await this.assertValidParent(data.parent, category);
+      category.set('parent', data.parent || null);
+    }
+
+    if (data.name !== undefined) category.name = data.name;
+    if (data.description !== undefined) category.description = data.description;
+
+    return category.save();
+  };
+
+  /**
+   * @description Delete a category that has no courses and no subcategories
+   *
+   * @throws {ErrorHandler} If the category is not found (HTTP status code 404)
+   * @throws {ErrorHandler} If courses or subcategories are still in the category (HTTP status code 409)
+   */
+  deleteCategory = async (slugOrId: string) => {
+    const category = await this.getCategory(slugOrId);
+
+    const courses = await Course.countDocuments({ categories: category._id });
+
+    if (courses)
+      throw new ErrorHandler(
+        `The category still has ${courses} course(s), please move them first`,
+        409
+      );
+
+    if (await Category.exists({ parent: category._id }))
+      throw new ErrorHandler(
+        'The category still has subcategories, please move or delete them first',
+        409
+      );
+
+    await category.deleteOne();
+
+    return category;
+  };
+
+  /**
+   * @description Create the categories from the titles of the former categories layout,
+   * only when there are no categories yet
+   */
+  importLayoutCategories = async () => {
+    if (await Category.exists({})) return;
+
+    const layout: any = await Layout.findOne({ type: 'categories' });
+
+    for (const { title } of layout?.categories || []) {
+      const slug = slugify(title || '');
+
+      if (slug && !(await Category.exists({ slug })))
+        await Category.create({ name: title, slug });
+    }
+  };
+}
+
+export default new CategoryService();
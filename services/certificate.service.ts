@@ -0,0 +1,116 @@
+import crypto from 'crypto';
+
+import Certificate from '../models/certificate.model';
+import { ICourse } from '../models/course.model';
+import { IUser } from '../models/user.model';
+import ErrorHandler from '../utils/ErrorHandler';
+import { logger } from '../utils/logger';
+import sendMail from '../utils/sendMail';
+
+// how many times the email of a certificate is tried before giving up on it
+const maxEmailAttempts = 3;
+
+class CertificateService {
+  /**
+   * @description Generate a unique, human readable certificate serial e.g CDN-3F9A-1C2B-77DE
+   */
+  generateSerial = () => {
+    const hex = crypto.randomBytes(6).toString('hex').toUpperCase();
+
+    return `CDN-${hex.match(/.{4}/g)?.join('-')}`;
+  };
+
+  /**
+   * @description Issue a certificate of completion for a course and email it to the student.
+   * A student only ever gets one certificate per course, so an existing one is returned as is,
+   * its email being tried again on a later completion until it goes out, a few times at most.
+   *
+   * @param {IUser} user - The student who completed the course
+   * @param {ICourse} course - The completed course
+   * @param {Date} completedAt - The date the course was completed
+   *
+   * @returns {Object} The issued certificate
+   */
+  issueCertificate = async (user: IUser, course: ICourse, completedAt: Date) => {
+    const userId = user._id.toString();
+    const courseId = course._id.toString();
+
+    // concurrent completions get the same certificate, MongoDB retries the upsert that loses
+    const certificate = await Certificate.findOneAndUpdate(
+      { userId, courseId },
+      {
+        $setOnInsert: {
+          serial: this.generateSerial(),
+          studentName: user.name,
+          courseName: course.name,
+          completedAt
+        }
+      },
+      { upsert: true, new: true }
+    );
+
+    const attempts = certificate.emailAttempts || 0;
+
+    if (certificate.emailedAt || attempts >= maxEmailAttempts) return certificate;
+
+    // claim the attempt, so a concurrent completion doesn't send the email too
+    const claimed = await Certificate.updateOne(
+      {
+        _id: certificate._id,
+        emailedAt: null,
+        emailAttempts: attempts || { $in: [0, null] }
+      },
+      { $set: { emailAttempts: attempts + 1 } }
+    );
+
+    if (!claimed.modifiedCount) return certificate;
+
+    const data = {
+      certificate: {
+        serial: certificate.serial,
+        studentName: certificate.studentName,
+        courseName: certificate.courseName,
+        date: certificate.completedAt.toLocaleDateString()
+      }
+    };
+
+    // the certificate is issued whether or not its email goes out
+    try {
+      await sendMail({
+        email: user.email,
+        subject: `Your certificate for ${course.name}`,
+        template: 'certificate.ejs',
+        data
+      });
+
+      certificate.emailedAt = new Date();
+      await Certificate.updateOne({ _id: certificate._id }, { emailedAt: certificate.emailedAt });
+    } catch (error: any) {
+      logger.error('Error sending certificate email', {
+        serial: certificate.serial,
+        attempt: attempts + 1,
+        error
+      });
+    }
+
+    return certificate;
+  };
+
+  /**
+   * @description Find a certificate by its serial
+   *
+   * @param {string} serial - The certificate serial
+   * @throws {ErrorHandler} If no certificate has the given serial (HTTP status code 404)
+   */
+  getCertificateBySerial = async (serial: string) => {
+    const certificate = await Certificate.findOne({
+      serial: serial.toUpperCase()
+    });
+
+    if (!certificate) throw new ErrorHandler('Certificate not found', 404);
+
+    return certificate;
+  };
+}
+
+export default new CertificateService();
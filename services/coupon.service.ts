@@ -0,0 +1,126 @@
+import Coupon, { ICoupon } from '../models/coupon.model';
+import { ICourse } from '../models/course.model';
+import Order from '../models/order.model';
+import ErrorHandler from '../utils/ErrorHandler';
+
+export interface IQuote {
+  price: number;
+  discount: number;
+  finalPrice: number;
+  coupon?: ICoupon;
+}
+
+// round to the smallest currency unit
+const roundPrice = (amount: number) => Math.round(amount * 100) / 100;
+
+class CouponService {
+  /**
+   * @description Compute the discount a coupon gives on a price
+   *
+   * @param {ICoupon} coupon - The coupon to apply
+   * @param {number} price - The course price
+   */
+  computeDiscount = (coupon: ICoupon, price: number) => {
+    const discount =
+      coupon.type === 'percentage' ? (price * coupon.value) / 100 : coupon.value;
+
+    return roundPrice(Math.min(discount, price));
+  };
+
+  /**
+   * @description Find a coupon by its code and make sure the user can redeem it on the course
+   *
+   * @param {string} code - The coupon code
+   * @param {ICourse} course - The course being bought
+   * @param {string} userId - The ID of the buyer
+   *
+   * @throws {ErrorHandler} If the coupon does not exist or is inactive (HTTP status code 404)
+   * @throws {ErrorHandler} If the coupon has expired, doesn't apply to the course or has been used up (HTTP status code 422)
+   */
+  validateCoupon = async (code: string, course: ICourse, userId: string) => {
+    const coupon = await Coupon.findOne({ code: code.trim().toUpperCase() });
+
+    if (!coupon || !coupon.isActive)
+      throw new ErrorHandler('Invalid coupon code', 404);
+
+    if (coupon.expiresAt && coupon.expiresAt.getTime() < Date.now())
+      throw new ErrorHandler('This coupon has expired', 422);
+
+    if (coupon.courseId && coupon.courseId !== course._id.toString())
+      throw new ErrorHandler('This coupon does not apply to this course', 422);
+
+    if (
+      coupon.maxRedemptions !== undefined &&
+      coupon.maxRedemptions !== null &&
+      coupon.redemptions >= coupon.maxRedemptions
+    )
+      throw new ErrorHandler('This coupon has been fully redeemed', 422);
+
+    // orders still waiting for their payment count too, else several could be opened and paid
+    const userRedemptions = await Order.countDocuments({
+      userId,
+      coupon: coupon.code,
+      status: { $in: ['pending', 'paid', 'refunding'] }
+    });
+
+    if (userRedemptions >= coupon.perUserLimit)
+      throw new ErrorHandler('You have already used this coupon', 422);
+
+    return coupon;
+  };
+
+  /**
+   * @description Get the final price of a course, with the coupon applied if one is given
+   *
+   * @param {ICourse} course - The course being bought
+   * @param {string} userId - The ID of the buyer
+   * @param {string} [code] - An optional coupon code
+   *
+   * @returns {IQuote} The course price, the discount and the final price
+   */
+  quote = async (
+    course: ICourse,
+    userId: string,
+    code?: string
+  ): Promise<IQuote> => {
+    const price = course.price;
+
+    if (!code) return { price, discount: 0, finalPrice: price };
+
+    const coupon = await this.validateCoupon(code, course, userId);
+    const discount = this.computeDiscount(coupon, price);
+
+    return {
+      price,
+      discount,
+      finalPrice: roundPrice(price - discount),
+      coupon
+    };
+  };
+
+  /**
+   * @description Count a redemption of a coupon once its order is paid, unless it would go
+   * over the coupon's maximum number of redemptions. The count is checked and incremented in a
+   * single update, so orders paid at the same time can't redeem the same last use.
+   *
+   * @param {string} code - The coupon code
+   *
+   * @returns {boolean} Whether the redemption was counted
+   */
+  redeem = async (code: string) => {
+    const { modifiedCount } = await Coupon.updateOne(
+      {
+        code,
+        $or: [
+          { maxRedemptions: null },
+          { $expr: { $lt: ['$redemptions', '$maxRedemptions'] } }
+        ]
+      },
+      { $inc: { redemptions: 1 } }
+    );
+
+    return modifiedCount > 0;
+  };
+}
+
+export default new CouponService();
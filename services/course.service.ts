@@ -1,9 +1,92 @@
 import { Response } from 'express';
 
 import catchAsyncErrors from '../middleware/catchAsyncErrors';
-import Course from '../models/course.model';
+import { FilterQuery, Types } from 'mongoose';
+import Course, { CourseStatus, ICourse } from '../models/course.model';
+import Notification from '../models/notification';
 import ErrorHandler from '../utils/ErrorHandler';
+import { Permission } from '../utils/permissions';
 import { redis } from '../utils/redis';
+import {
+  IListOptions,
+  IListQuery,
+  buildPagination,
+  paginate
+} from '../utils/listQuery';
+
+// the filters and sorts of the course management listing
+export const courseListOptions: IListOptions = {
+  filters: {
+    status: 'string',
+    level: 'string',
+    categories: 'objectId',
+    price: 'number',
+    ratings: 'number',
+    purchased: 'number',
+    createdAt: 'date'
+  },
+  sorts: ['createdAt', 'name', 'price', 'ratings', 'purchased']
+};
+
+export interface ICourseSearch {
+  q?: string;
+  level?: string;
+  // a category and its subcategories
+  categories?: Types.ObjectId[];
+  minPrice?: number;
+  maxPrice?: number;
+  minRating?: number;
+  sort?: string;
+  page: number;
+  limit: number;
+}
+
+export const searchSorts: { [sort: string]: { [field: string]: 1 | -1 } } = {
+  newest: { createdAt: -1 },
+  popular: { purchased: -1, createdAt: -1 },
+  rating: { ratings: -1, createdAt: -1 },
+  price_asc: { price: 1, createdAt: -1 },
+  price_desc: { price: -1, createdAt: -1 }
+};
+
+// price ranges counted by the search facets, max excluded
+const priceRanges: { range: string; min: number; max?: number }[] = [
+  { range: 'free', min: 0, max: 0 },
+  { range: 'under-20', min: 0, max: 20 },
+  { range: '20-50', min: 20, max: 50 },
+  { range: '50-100', min: 50, max: 100 },
+  { range: '100-plus', min: 100 }
+];
+
+// aggregation condition of a course being in a price range, free courses only count as free
+const inPriceRange = ({ min, max }: { min: number; max?: number }) =>
+  max === 0
+    ? { $lte: ['$price', 0] }
+    : {
+        $and: [
+          { $gt: ['$price', 0] },
+          { $gte: ['$price', min] },
+          ...(max === undefined ? [] : [{ $lt: ['$price', max] }])
+        ]
+      };
+
+const ratingThresholds = [4, 3, 2, 1];
+
+// the listing omits the paid content of the lessons
+const listingProjection = {
+  'courseData.videoUrl': 0,
+  'courseData.suggestion': 0,
+  'courseData.questions': 0,
+  'courseData.links': 0
+};
+
+// the statuses a course can move to from each status
+const statusTransitions: { [status in CourseStatus]: CourseStatus[] } = {
+  draft: ['in_review', 'published'],
+  in_review: ['draft', 'published'],
+  published: ['archived'],
+  archived: ['published']
+};
 
 class CourseService {
   /**
@@ -24,25 +107,176 @@ class CourseService {
   });
 
   /**
-   * @description Get a list of courses sorted by createdAt
+   * @description Get a page of courses
    *
    * @param {Object} res - Express Response object for sending the HTTP response
+   * @param {IListQuery} listQuery - The pagination, sort and filters parsed with courseListOptions
+   * @param {Object} [filter] - Mongo filter on the courses e.g { owners: userId }
    */
-  getAllCourses = async (res: Response) => {
-    try {
-      const courses = await Course.find().sort({ createdAt: -1 });
+  getAllCourses = async (
+    res: Response,
+    listQuery: IListQuery,
+    filter: FilterQuery<ICourse> = {}
+  ) => {
+    const { items: courses, pagination } = await paginate(Course, listQuery, filter);
 
-      res.json({
-        success: true,
-        nbHits: courses.length,
-        courses
-      });
-    } catch (error: any) {
-      res.status(500).json({
-        success: false,
-        error: `Error processing getAllCourses: ${error.message}`
-      });
-    }
+    res.json({
+      success: true,
+      nbHits: courses.length,
+      courses,
+      pagination
+    });
+  };
+
+  /**
+   * @description Search the published courses with full-text search, filters, sorting and
+   * page-based pagination. Each facet counts the matching courses ignoring its own filter,
+   * so the catalogue can show the totals of the other options.
+   *
+   * @param {ICourseSearch} search - The parsed search query
+   */
+  searchCourses = async (search: ICourseSearch) => {
+    const base: FilterQuery<ICourse> = { status: 'published' };
+
+    if (search.q) base.$text = { $search: search.q };
+
+    const price: { $gte?: number; $lte?: number } = {};
+    if (search.minPrice !== undefined) price.$gte = search.minPrice;
+    if (search.maxPrice !== undefined) price.$lte = search.maxPrice;
+
+    const filters: { [facet: string]: FilterQuery<ICourse> } = {
+      level: search.level ? { level: search.level } : {},
+      category: search.categories
+        ? { categories: { $in: search.categories } }
+        : {},
+      price: Object.keys(price).length ? { price } : {},
+      rating:
+        search.minRating !== undefined
+          ? { ratings: { $gte: search.minRating } }
+          : {}
+    };
+
+    // the filters of every facet but one
+    const filtersExcept = (facet?: string) => ({
+      $match: Object.keys(filters)
+        .filter((name) => name !== facet)
+        .reduce((match, name) => ({ ...match, ...filters[name] }), {})
+    });
+
+    // relevance comes first for text searches without an explicit sort
+    const sort: { [field: string]: 1 | -1 } = search.sort
+      ? searchSorts[search.sort]
+      : search.q
+      ? { score: -1 }
+      : searchSorts.newest;
+
+    const [result] = await Course.aggregate([
+      { $match: base },
+      ...(search.q ? [{ $addFields: { score: { $meta: 'textScore' } } }] : []),
+      {
+        $facet: {
+          courses: [
+            filtersExcept(),
+            { $sort: sort },
+            { $skip: (search.page - 1) * search.limit },
+            { $limit: search.limit },
+            { $project: listingProjection }
+          ],
+          total: [filtersExcept(), { $count: 'count' }],
+          levels: [
+            filtersExcept('level'),
+            { $group: { _id: '$level', count: { $sum: 1 } } },
+            { $sort: { count: -1 } }
+          ],
+          categories: [
+            filtersExcept('category'),
+            { $unwind: '$categories' },
+            { $group: { _id: '$categories', count: { $sum: 1 } } },
+            { $sort: { count: -1 } },
+            {
+              $lookup: {
+                from: 'categories',
+                localField: '_id',
+                foreignField: '_id',
+                as: 'category'
+              }
+            },
+            { $unwind: '$category' }
+          ],
+          prices: [
+            filtersExcept('price'),
+            {
+              $group: {
+                _id: null,
+                ...priceRanges.reduce(
+                  (group, range) => ({
+                    ...group,
+                    [range.range]: {
+                      $sum: { $cond: [inPriceRange(range), 1, 0] }
+                    }
+                  }),
+                  {}
+                )
+              }
+            }
+          ],
+          ratings: [
+            filtersExcept('rating'),
+            {
+              $group: {
+                _id: null,
+                ...ratingThresholds.reduce(
+                  (group, threshold) => ({
+                    ...group,
+                    [threshold]: {
+                      $sum: { $cond: [{ $gte: ['$ratings', threshold] }, 1, 0] }
+                    }
+                  }),
+                  {}
+                )
+              }
+            }
+          ]
+        }
+      }
+    ]);
+
+    const total = result.total[0]?.count || 0;
+    const prices = result.prices[0] || {};
+    const ratings = result.ratings[0] || {};
+
+    return {
+      courses: result.courses,
+      pagination: buildPagination(search.page, search.limit, total),
+      facets: {
+        levels: result.levels.map(({ _id, count }: any) => ({ level: _id, count })),
+        categories: result.categories.map(({ category, count }: any) => ({
+          _id: category._id,
+          name: category.name,
+          slug: category.slug,
+          count
+        })),
+        prices: priceRanges.map((range) => ({
+          ...range,
+          count: prices[range.range] || 0
+        })),
+        ratings: ratingThresholds.map((minRating) => ({
+          minRating,
+          count: ratings[minRating] || 0
+        }))
+      }
+    };
+  };
+
+  /**
+   * @description Get the ids of the courses an instructor owns
+   *
+   * @param {string} userId - The ID of the instructor
+   */
+  getOwnedCourseIds = async (userId: string) => {
+    const courses = await Course.find({ owners: userId }).select('_id');
+
+    return courses.map((course) => course._id.toString());
   };
 
   deleteCourseById = async (id: string) => {
@@ -51,7 +285,120 @@ class CourseService {
     if (!course) throw new ErrorHandler('Course not found', 404);
 
     await course.deleteOne();
-    redis.del(id);
+    await this.clearCache(id);
+
+    return course;
+  };
+
+  /**
+   * @description Remove a course and the public course listing from the cache
+   */
+  clearCache = async (id: string) => {
+    await redis.del(id, 'allCourses');
+  };
+
+  /**
+   * @description Move a course through its publishing workflow. Publishing with a future
+   * publishAt keeps the course in review until the scheduler publishes it.
+   *
+   * @param {string} id - The ID of the course
+   * @param {CourseStatus} status - The new status
+   * @param {Permission[]} permissions - The permissions of the user changing the status
+   * @param {Date} [publishAt] - When to publish the course
+   *
+   * @throws {ErrorHandler} If the course is not found (HTTP status code 404)
+   * @throws {ErrorHandler} If publishing or archiving without the course:publish permission (HTTP status code 403)
+   * @throws {ErrorHandler} If the course can't move to the status (HTTP status code 422)
+   */
+  updateCourseStatus = async (
+    id: string,
+    status: CourseStatus,
+    permissions: Permission[],
+    publishAt?: Date
+  ) => {
+    const course = await Course.findById(id);
+
+    if (!course) throw new ErrorHandler('Course not found', 404);
+
+    const current = course.status || 'draft';
+
+    if (!statusTransitions[current]?.includes(status))
+      throw new ErrorHandler(
+        `A ${current} course cannot be moved to ${status}`,
+        422
+      );
+
+    if (
+      (status === 'published' || status === 'archived') &&
+      !permissions.includes('course:publish')
+    )
+      throw new ErrorHandler(
+        `You are not allowed to ${status === 'published' ? 'publish' : 'archive'} courses`,
+        403
+      );
+
+    if (publishAt && isNaN(publishAt.getTime()))
+      throw new ErrorHandler('Invalid publish date', 422);
+
+    if (status === 'published' && publishAt && publishAt.getTime() > Date.now()) {
+      // scheduled release
+      course.status = 'in_review';
+      course.publishAt = publishAt;
+    } else {
+      course.status = status;
+      course.publishAt = undefined;
+      if (status === 'published' && !course.publishedAt)
+        course.publishedAt = new Date();
+    }
+
+    await course.save();
+    await this.clearCache(id);
+
+    if (course.status === 'in_review' && current === 'draft')
+      await Notification.create({
+        courseId: id,
+        title: 'Course Submitted For Review',
+        message: `The course "${course.name}" is waiting for review.`
+      });
+
+    return course;
+  };
+
+  /**
+   * @description Publish the courses in review whose publishAt has passed
+   *
+   * @returns {number} The number of courses published
+   */
+  publishScheduledCourses = async () => {
+    const now = new Date();
+    const courses = await Course.find({
+      status: 'in_review',
+      publishAt: { $lte: now }
+    }).select('_id');
+
+    if (!courses.length) return 0;
+
+    const ids = courses.map((course) => course._id.toString());
+
+    await Course.updateMany(
+      { _id: { $in: ids }, status: 'in_review' },
+      { status: 'published', publishedAt: now, $unset: { publishAt: 1 } }
+    );
+    await redis.del(...ids, 'allCourses');
+
+    return ids.length;
+  };
+
+  /**
+   * @description Courses created before the publishing workflow were public, keep them published
+   */
+  publishLegacyCourses = async () => {
+    const { modifiedCount } = await Course.updateMany(
+      { status: { $exists: false } },
+      { status: 'published' }
+    );
+
+    if (modifiedCount) await redis.del('allCourses');
   };
 }
 
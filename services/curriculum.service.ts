@@ -0,0 +1,245 @@
+import { Types } from 'mongoose';
+
+import Course, { ICourse, ICourseData, ISection } from '../models/course.model';
+import ErrorHandler from '../utils/ErrorHandler';
+import CourseService from './course.service';
+
+// lesson fields an instructor is allowed to set
+const lessonFields: (keyof ICourseData)[] = [
+  'title',
+  'description',
+  'videoUrl',
+  'videoThumbnail',
+  'videoLength',
+  'videoPlayer',
+  'links',
+  'suggestion'
+];
+
+// insert an item at a position, at the end if the position is missing or out of range
+const insertAt = <T>(items: T[], item: T, position?: number) => {
+  const index =
+    position === undefined || position < 0 || position > items.length
+      ? items.length
+      : position;
+
+  items.splice(index, 0, item);
+};
+
+// check that ids are exactly the current ids in a new order
+const isPermutation = (current: string[], ids: string[]) =>
+  Array.isArray(ids) &&
+  ids.length === current.length &&
+  new Set(ids).size === ids.length &&
+  ids.every((id) => current.includes(id));
+
+class CurriculumService {
+  /**
+   * @description Build the outline of a course: its sections, their lessons and durations
+   * computed from the lessons' videoLength
+   *
+   * @param {ICourse} course - The course
+   */
+  getOutline = (course: ICourse) => {
+    course.syncSections();
+
+    const sections = course.sections.map((section) => {
+      const lessons = section.lessons
+        .map((id) => course.courseData.find((lesson) => lesson._id.equals(id)))
+        .filter((lesson): lesson is ICourseData => !!lesson)
+        .map((lesson) => ({
+          _id: lesson._id,
+          title: lesson.title,
+          videoLength: lesson.videoLength || 0
+        }));
+
+      return {
+        _id: section._id,
+        title: section.title,
+        lessons,
+        lessonCount: lessons.length,
+        duration: lessons.reduce((total, lesson) => total + lesson.videoLength, 0)
+      };
+    });
+
+    return {
+      sections,
+      lessonCount: sections.reduce((total, section) => total + section.lessonCount, 0),
+      totalDuration: sections.reduce((total, section) => total + section.duration, 0)
+    };
+  };
+
+  /**
+   * @description Add the outline to the JSON of a course
+   */
+  withOutline = (course: ICourse) => ({
+    ...course.toJSON(),
+    outline: this.getOutline(course)
+  });
+
+  /**
+   * @throws {ErrorHandler} If the course is not found (HTTP status code 404)
+   */
+  private loadCourse = async (id: string) => {
+    const course = await Course.findById(id);
+
+    if (!course) throw new ErrorHandler('Course not found', 404);
+
+    course.syncSections();
+
+    return course;
+  };
+
+  private saveCourse = async (course: ICourse) => {
+    await course.save();
+    await CourseService.clearCache(course._id.toString());
+
+    return course;
+  };
+
+  /**
+   * @throws {ErrorHandler} If the section is not found (HTTP status code 404)
+   */
+  private findSection = (course: ICourse, sectionId: string) => {
+    const section = course.sections.find((section) =>
+      section._id.equals(sectionId)
+    );
+
+    if (!section) throw new ErrorHandler('Section not found', 404);
+
+    return section;
+  };
+
+  addSection = async (courseId: string, title: string, position?: number) => {
+    const course = await this.loadCourse(courseId);
+
+    insertAt(course.sections, { title, lessons: [] } as unknown as ISection, position);
+
+    return this.saveCourse(course);
+  };
+
+  renameSection = async (courseId: string, sectionId: string, title: string) => {
+    const course = await this.loadCourse(courseId);
+
+    this.findSection(course, sectionId).title = title;
+
+    return this.saveCourse(course);
+  };
+
+  /**
+   * @throws {ErrorHandler} If the ids are not the ids of the course's sections (HTTP status code 422)
+   */
+  reorderSections = async (courseId: string, sectionIds: string[]) => {
+    const course = await this.loadCourse(courseId);
+    const current = course.sections.map((section) => section._id.toString());
+
+    if (!isPermutation(current, sectionIds))
+      throw new ErrorHandler('Please list every section of the course once', 422);
+
+    const sections = sectionIds.map((id) => this.findSection(course, id));
+    course.sections.splice(0, course.sections.length, ...sections);
+
+    return this.saveCourse(course);
+  };
+
+  /**
+   * @throws {ErrorHandler} If the section still has lessons (HTTP status code 409)
+   */
+  deleteSection = async (courseId: string, sectionId: string) => {
+    const course = await this.loadCourse(courseId);
+    const section = this.findSection(course, sectionId);
+
+    if (section.lessons.length)
+      throw new ErrorHandler(
+        'Please move or delete the lessons of the section first',
+        409
+      );
+
+    course.sections.splice(course.sections.indexOf(section), 1);
+
+    return this.saveCourse(course);
+  };
+
+  addLesson = async (
+    courseId: string,
+    sectionId: string,
+    data: any,
+    position?: number
+  ) => {
+    const course = await this.loadCourse(courseId);
+    const section = this.findSection(course, sectionId);
+
+    const lesson = lessonFields.reduce(
+      (lesson, field) => {
+        if (data[field] !== undefined) lesson[field] = data[field];
+        return lesson;
+      },
+      { videoSection: section.title } as { [key: string]: any }
+    );
+
+    course.courseData.push(lesson as ICourseData);
+    const lessonId = course.courseData[course.courseData.length - 1]._id;
+    insertAt(section.lessons, lessonId, position);
+
+    return this.saveCourse(course);
+  };
+
+  /**
+   * @throws {ErrorHandler} If the ids are not the ids of the section's lessons (HTTP status code 422)
+   */
+  reorderLessons = async (
+    courseId: string,
+    sectionId: string,
+    lessonIds: string[]
+  ) => {
+    const course = await this.loadCourse(courseId);
+    const section = this.findSection(course, sectionId);
+    const current = section.lessons.map((id) => id.toString());
+
+    if (!isPermutation(current, lessonIds))
+      throw new ErrorHandler('Please list every lesson of the section once', 422);
+
+    section.lessons = lessonIds.map((id) => new Types.ObjectId(id));
+
+    return this.saveCourse(course);
+  };
+
+  /**
+   * @throws {ErrorHandler} If the lesson or the section is not found (HTTP status code 404)
+   */
+  moveLesson = async (
+    courseId: string,
+    lessonId: string,
+    sectionId: string,
+    position?: number
+  ) => {
+    const course = await this.loadCourse(courseId);
+    const target = this.findSection(course, sectionId);
+    const from = course.sections.find((section) =>
+      section.lessons.some((id) => id.equals(lessonId))
+    );
+
+    if (!from) throw new ErrorHandler('Lesson not found', 404);
+
+    from.lessons = from.lessons.filter((id) => !id.equals(lessonId));
+    insertAt(target.lessons, new Types.ObjectId(lessonId), position);
+
+    return this.saveCourse(course);
+  };
+
+  /**
+   * @throws {ErrorHandler} If the lesson is not found (HTTP status code 404)
+   */
+  deleteLesson = async (courseId: string, lessonId: string) => {
+    const course = await this.loadCourse(courseId);
+    const lesson = course.courseData.find((lesson) => lesson._id.equals(lessonId));
+
+    if (!lesson) throw new ErrorHandler('Lesson not found', 404);
+
+    course.courseData.splice(course.courseData.indexOf(lesson), 1);
+
+    return this.saveCourse(course);
+  };
+}
+
+export default new CurriculumService();
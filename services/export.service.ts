@@ -0,0 +1,172 @@
+import { Response } from 'express';
+import { Model, PipelineStage } from 'mongoose';
+
+import User from '../models/user.model';
+import Order from '../models/order.model';
+import Course from '../models/course.model';
+import ErrorHandler from '../utils/ErrorHandler';
+import { ExportFormat, IExportColumn, streamExport } from '../utils/export';
+import { IListOptions, IListQuery } from '../utils/listQuery';
+import { userListOptions } from './user.service';
+import { orderListOptions } from './order.service';
+import { courseListOptions } from './course.service';
+
+interface IExportDefinition {
+  model: Model<any>;
+  listOptions: IListOptions;
+  // stages adding the joined fields, run after the filter and sort
+  joins?: PipelineStage[];
+  columns: IExportColumn[];
+}
+
+// look up a document whose id is stored as a string, e.g the course of an order
+const lookupById = (
+  from: string,
+  localField: string,
+  as: string,
+  fields: { [field: string]: 1 }
+): PipelineStage[] => [
+  {
+    $lookup: {
+      from,
+      let: {
+        id: { $convert: { input: `$${localField}`, to: 'objectId', onError: null, onNull: null } }
+      },
+      pipeline: [
+        { $match: { $expr: { $eq: ['$_id', '$$id'] } } },
+        { $project: fields }
+      ],
+      as
+    }
+  },
+  { $unwind: { path: `$${as}`, preserveNullAndEmptyArrays: true } }
+];
+
+const column = (key: string, value: (row: any) => any = (row) => row[key]) => ({
+  key,
+  value
+});
+
+const definitions: { [resource: string]: IExportDefinition } = {
+  users: {
+    model: User,
+    listOptions: userListOptions,
+    columns: [
+      column('id', (user) => user._id),
+      column('name'),
+      column('email'),
+      column('role'),
+      column('isVerified'),
+      column('twoFactorEnabled'),
+      column('courses', (user) => user.courses?.length || 0),
+      column('lockedUntil'),
+      column('createdAt')
+    ]
+  },
+  orders: {
+    model: Order,
+    listOptions: orderListOptions,
+    joins: [
+      ...lookupById('courses', 'courseId', 'course', { name: 1 }),
+      ...lookupById('users', 'userId', 'buyer', { name: 1, email: 1 })
+    ],
+    columns: [
+      column('id', (order) => order._id),
+      column('status'),
+      column('amount'),
+      column('discount'),
+      column('currency'),
+      column('coupon'),
+      column('provider'),
+      column('providerReference'),
+      column('refundedAmount'),
+      column('refundedAt'),
+      column('courseId'),
+      column('courseName', (order) => order.course?.name),
+      column('userId'),
+      column('buyerName', (order) => order.buyer?.name),
+      column('buyerEmail', (order) => order.buyer?.email),
+      column('createdAt')
+    ]
+  },
+  courses: {
+    model: Course,
+    listOptions: courseListOptions,
+    columns: [
+      column('id', (course) => course._id),
+      column('name'),
+      column('status'),
+      column('level'),
+      column('price'),
+      column('estimatedPrice'),
+      column('purchased'),
+      column('ratings'),
+      column('reviews', (course) => course.reviews?.length || 0),
+      column('lessons', (course) => course.courseData?.length || 0),
+      column('categories'),
+      column('owners'),
+      column('publishedAt'),
+      column('createdAt')
+    ]
+  }
+};
+
+class ExportService {
+  getListOptions = (resource: string) => definitions[resource].listOptions;
+
+  /**
+   * @description Stream a collection to the response, read from a MongoDB cursor
+   *
+   * @param {Response} res - Express response object
+   * @param {string} resource - users, orders or courses
+   * @param {IListQuery} listQuery - The filters and sort, parsed with the resource's list options
+   * @param {ExportFormat} format - csv or ndjson
+   * @param {string[]} [columnKeys] - The columns to export, all of them by default
+   *
+   * @throws {ErrorHandler} If a column is unknown (HTTP status code 422)
+   */
+  exportCollection = async (
+    res: Response,
+    resource: string,
+    listQuery: IListQuery,
+    format: ExportFormat,
+    columnKeys?: string[]
+  ) => {
+    const definition = definitions[resource];
+
+    const columns = columnKeys
+      ? columnKeys.map((key) => {
+          const found = definition.columns.find((column) => column.key === key);
+
+          if (!found)
+            throw new ErrorHandler(`Unknown ${resource} column: ${key}`, 422);
+
+          return found;
+        })
+      : definition.columns;
+
+    const cursor = definition.model
+      .aggregate([
+        { $match: listQuery.filter },
+        { $sort: { ...listQuery.sort, _id: listQuery.sort._id || -1 } },
+        // never read the secrets of users
+        { $project: { password: 0, twoFactorSecret: 0, twoFactorBackupCodes: 0 } },
+        ...(definition.joins || [])
+      ])
+      .cursor();
+
+    try {
+      await streamExport(
+        res,
+        cursor,
+        columns,
+        format,
+        `${resource}-${new Date().toISOString().slice(0, 10)}`
+      );
+    } finally {
+      await cursor.close();
+    }
+  };
+}
+
+export default new ExportService();
@@ -0,0 +1,520 @@
+import { Types } from 'mongoose';
+
+import Course, { ICourse } from '../models/course.model';
+import Category from '../models/category.model';
+import ErrorHandler from '../utils/ErrorHandler';
+import { parseCsv } from '../utils/csv';
+import { IFieldError } from '../utils/schema';
+import CourseService from './course.service';
+
+export interface IImportError extends IFieldError {
+  // the index of the course in a JSON manifest, or the line of a CSV manifest, starting at 1
+  row: number;
+  externalId?: string;
+}
+
+export interface IImportResult {
+  row: number;
+  externalId: string;
+  action: 'created' | 'updated' | 'unchanged';
+  courseId?: Types.ObjectId;
+}
+
+interface IManifestLink {
+  title: string;
+  url: string;
+}
+
+interface IManifestLesson {
+  row: number;
+  // prefix of the lesson fields in the errors e.g 'sections[0].lessons[2].'
+  path: string;
+  externalId?: string;
+  title: string;
+  description: string;
+  videoUrl: string;
+  videoLength?: number;
+  videoPlayer: string;
+  suggestion: string;
+  links: IManifestLink[];
+}
+
+interface IManifestSection {
+  title: string;
+  lessons: IManifestLesson[];
+}
+
+interface IManifestCourse {
+  row: number;
+  externalId: string;
+  name: string;
+  description: string;
+  price: number;
+  estimatedPrice?: number;
+  tags: string;
+  level: string;
+  demoUrl: string;
+  benefits: string[];
+  prerequisites: string[];
+  // category slugs or ids
+  categories: string[];
+  sections: IManifestSection[];
+}
+
+// the course fields of a CSV manifest, repeated or left blank on the lesson rows of a course
+const csvCourseFields = [
+  'name',
+  'description',
+  'price',
+  'estimatedPrice',
+  'tags',
+  'level',
+  'demoUrl',
+  'benefits',
+  'prerequisites',
+  'categories'
+];
+
+// list cells of a CSV manifest e.g 'react;hooks', links being 'title|url;title|url'
+const splitList = (value?: string) =>
+  (value || '')
+    .split(';')
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+const toNumber = (value: any) =>
+  value === undefined || value === null || value === '' ? undefined : Number(value);
+
+const isHttpUrl = (value: string) => {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+// the fields written by an import, to tell whether it changed the course
+const snapshot = (course: ICourse) =>
+  JSON.stringify({
+    name: course.name,
+    description: course.description,
+    price: course.price,
+    estimatedPrice: course.estimatedPrice,
+    tags: course.tags,
+    level: course.level,
+    demoUrl: course.demoUrl,
+    benefits: course.benefits.map(({ title }) => title),
+    prerequisites: course.prerequisites.map(({ title }) => title),
+    categories: course.categories.map(String),
+    sections: course.sections.map(({ title, lessons }) => ({
+      title,
+      lessons: lessons.map(String)
+    })),
+    courseData: course.courseData.map((lesson) => ({
+      _id: lesson._id,
+      externalId: lesson.externalId,
+      title: lesson.title,
+      description: lesson.description,
+      videoUrl: lesson.videoUrl,
+      videoLength: lesson.videoLength,
+      videoPlayer: lesson.videoPlayer,
+      suggestion: lesson.suggestion,
+      links: lesson.links.map(({ title, url }) => ({ title, url }))
+    }))
+  });
+
+class ImportService {
+  /**
+   * @description Read the courses of a CSV manifest, one row per lesson. Rows sharing an externalId
+   * are the lessons of the same course, in order, grouped by their section column.
+   *
+   * @throws {ErrorHandler} If the CSV can't be parsed (HTTP status code 422)
+   */
+  parseCsvManifest = (text: string) => {
+    let records;
+
+    try {
+      records = parseCsv(text);
+    } catch (error: any) {
+      throw new ErrorHandler(error.message, 422);
+    }
+
+    const errors: IImportError[] = [];
+    const courses = new Map<string, IManifestCourse & { values: { [field: string]: string } }>();
+
+    records.forEach(({ line, record }) => {
+      const externalId = record.externalId;
+
+      if (!externalId) {
+        errors.push({ row: line, field: 'externalId', message: 'The course externalId is required' });
+        return;
+      }
+
+      let course = courses.get(externalId);
+
+      if (!course) {
+        course = {
+          row: line,
+          externalId,
+          name: record.name,
+          description: record.description,
+          price: toNumber(record.price) as number,
+          estimatedPrice: toNumber(record.estimatedPrice),
+          tags: record.tags,
+          level: record.level,
+          demoUrl: record.demoUrl,
+          benefits: splitList(record.benefits),
+          prerequisites: splitList(record.prerequisites),
+          categories: splitList(record.categories),
+          sections: [],
+          values: record
+        };
+        courses.set(externalId, course);
+      } else {
+        const first = course;
+
+        csvCourseFields
+          .filter((field) => record[field] && record[field] !== first.values[field])
+          .forEach((field) =>
+            errors.push({
+              row: line,
+              externalId,
+              field,
+              message: `Differs from the ${field} of the course on line ${first.row}`
+            })
+          );
+      }
+
+      // a row without a lesson title only describes the course
+      if (!record.lessonTitle && !record.videoUrl) return;
+
+      const title = record.section || 'Untitled section';
+      let section = course.sections.find((section) => section.title === title);
+
+      if (!section) {
+        section = { title, lessons: [] };
+        course.sections.push(section);
+      }
+
+      section.lessons.push({
+        row: line,
+        path: '',
+        externalId: record.lessonExternalId || undefined,
+        title: record.lessonTitle,
+        description: record.lessonDescription,
+        videoUrl: record.videoUrl,
+        videoLength: toNumber(record.videoLength),
+        videoPlayer: record.videoPlayer,
+        suggestion: record.suggestion,
+        links: splitList(record.links).map((link) => {
+          const [title, ...url] = link.split('|');
+          return { title: title.trim(), url: url.join('|').trim() };
+        })
+      });
+    });
+
+    return {
+      courses: Array.from(courses.values()).map(({ values, ...course }) => course),
+      errors
+    };
+  };
+
+  /**
+   * @description Read the courses of a JSON manifest: a list of courses, or { courses: [...] }
+   *
+   * @throws {ErrorHandler} If the manifest is not a list of courses (HTTP status code 422)
+   */
+  parseJsonManifest = (body: any) => {
+    const items = Array.isArray(body) ? body : body?.courses;
+
+    if (!Array.isArray(items))
+      throw new ErrorHandler('The manifest must be a list of courses', 422);
+
+    const courses: IManifestCourse[] = items.map((item: any, i: number) => {
+      const course = item && typeof item === 'object' ? item : {};
+      const list = (value: any) => (Array.isArray(value) ? value : []);
+
+      return {
+        row: i + 1,
+        externalId: course.externalId,
+        name: course.name,
+        description: course.description,
+        price: course.price,
+        estimatedPrice: course.estimatedPrice ?? undefined,
+        tags: Array.isArray(course.tags) ? course.tags.join(',') : course.tags,
+        level: course.level,
+        demoUrl: course.demoUrl,
+        benefits: list(course.benefits),
+        prerequisites: list(course.prerequisites),
+        categories: list(course.categories),
+        sections: list(course.sections).map((section: any, s: number) => ({
+          title: section?.title,
+          lessons: list(section?.lessons).map((lesson: any, l: number) => ({
+            row: i + 1,
+            path: `sections[${s}].lessons[${l}].`,
+            externalId: lesson?.externalId ?? undefined,
+            title: lesson?.title,
+            description: lesson?.description,
+            videoUrl: lesson?.videoUrl,
+            videoLength: lesson?.videoLength ?? undefined,
+            videoPlayer: lesson?.videoPlayer,
+            suggestion: lesson?.suggestion,
+            links: list(lesson?.links)
+          }))
+        }))
+      };
+    });
+
+    return { courses, errors: [] as IImportError[] };
+  };
+
+  /**
+   * @description Check every course of a manifest, reporting each invalid field with its row
+   *
+   * @returns {IImportError[]} The errors, empty when the manifest is valid
+   */
+  private validate = async (courses: IManifestCourse[]) => {
+    const errors: IImportError[] = [];
+    const seen = new Map<string, number>();
+
+    const categoryKeys = Array.from(
+      new Set(courses.flatMap((course) => course.categories).map(String))
+    );
+    const categories = await Category.find({
+      $or: [
+        { slug: { $in: categoryKeys } },
+        { _id: { $in: categoryKeys.filter((key) => Types.ObjectId.isValid(key)) } }
+      ]
+    }).select('slug');
+    const knownCategories = new Set(
+      categories.flatMap((category) => [category.slug, category._id.toString()])
+    );
+
+    courses.forEach((course) => {
+      const error = (field: string, message: string, row = course.row) =>
+        errors.push({ row, externalId: course.externalId || undefined, field, message });
+      const isText = (value: any) => typeof value === 'string' && value.trim() !== '';
+
+      if (!isText(course.externalId)) {
+        error('externalId', 'The course externalId is required');
+      } else if (seen.has(course.externalId)) {
+        error('externalId', `Duplicate of the course on row ${seen.get(course.externalId)}`);
+      } else {
+        seen.set(course.externalId, course.row);
+      }
+
+      ['name', 'description', 'tags', 'level', 'demoUrl'].forEach((field) => {
+        if (!isText((course as any)[field])) error(field, `The ${field} is required`);
+      });
+
+      if (typeof course.price !== 'number' || !(course.price >= 0))
+        error('price', 'The price must be a number of at least 0');
+
+      if (
+        course.estimatedPrice !== undefined &&
+        (typeof course.estimatedPrice !== 'number' || !(course.estimatedPrice >= 0))
+      )
+        error('estimatedPrice', 'The estimated price must be a number of at least 0');
+
+      (['benefits', 'prerequisites'] as const).forEach((field) => {
+        if (course[field].some((title) => !isText(title)))
+          error(field, `The ${field} must be a list of titles`);
+      });
+
+      course.categories.forEach((category) => {
+        if (!knownCategories.has(String(category)))
+          error('categories', `Unknown category: ${category}`);
+      });
+
+      const lessonIds = new Set<string>();
+
+      course.sections.forEach((section, s) => {
+        if (!isText(section.title))
+          error(`sections[${s}].title`, 'The section title is required');
+
+        section.lessons.forEach((lesson) => {
+          const lessonError = (field: string, message: string) =>
+            error(`${lesson.path}${field}`, message, lesson.row);
+
+          if (lesson.externalId !== undefined) {
+            if (!isText(lesson.externalId))
+              lessonError('externalId', 'The lesson externalId must be a string');
+            else if (lessonIds.has(lesson.externalId))
+              lessonError('externalId', 'Duplicate lesson externalId in the course');
+            else lessonIds.add(lesson.externalId);
+          }
+
+          if (!isText(lesson.title)) lessonError('title', 'The lesson title is required');
+          if (!isText(lesson.videoUrl))
+            lessonError('videoUrl', 'The lesson videoUrl is required');
+
+          if (
+            lesson.videoLength !== undefined &&
+            (typeof lesson.videoLength !== 'number' || !(lesson.videoLength >= 0))
+          )
+            lessonError('videoLength', 'The video length must be a number of at least 0');
+
+          ['description', 'videoPlayer', 'suggestion'].forEach((field) => {
+            const value = (lesson as any)[field];
+            if (value !== undefined && value !== '' && typeof value !== 'string')
+              lessonError(field, `The lesson ${field} must be a string`);
+          });
+
+          lesson.links.forEach((link, k) => {
+            if (!isText(link?.title))
+              lessonError(`links[${k}].title`, 'The link title is required');
+            if (typeof link?.url !== 'string' || !isHttpUrl(link.url))
+              lessonError(`links[${k}].url`, 'The link url must be an http(s) url');
+          });
+        });
+      });
+    });
+
+    return errors;
+  };
+
+  /**
+   * @description Write a manifest course over a course: lessons are matched by their externalId,
+   * or by their title within the same section, so they keep their id, thumbnail and questions.
+   * Lessons missing from the manifest are removed.
+   */
+  private apply = async (course: ICourse, manifest: IManifestCourse) => {
+    const categories = await Category.find({
+      $or: [
+        { slug: { $in: manifest.categories } },
+        {
+          _id: {
+            $in: manifest.categories.filter((key) => Types.ObjectId.isValid(key))
+          }
+        }
+      ]
+    }).select('_id');
+
+    course.set({
+      name: manifest.name,
+      description: manifest.description,
+      price: manifest.price,
+      estimatedPrice: manifest.estimatedPrice,
+      tags: manifest.tags,
+      level: manifest.level,
+      demoUrl: manifest.demoUrl,
+      benefits: manifest.benefits.map((title) => ({ title })),
+      prerequisites: manifest.prerequisites.map((title) => ({ title })),
+      categories: categories.map((category) => category._id)
+    });
+
+    const existing = course.courseData.map((lesson) => lesson.toObject());
+    const matched = new Set<string>();
+
+    const match = (lesson: IManifestLesson, sectionTitle: string) =>
+      existing.find(
+        (candidate) =>
+          !matched.has(candidate._id.toString()) &&
+          (lesson.externalId
+            ? candidate.externalId === lesson.externalId
+            : !candidate.externalId &&
+              candidate.title === lesson.title &&
+              candidate.videoSection === sectionTitle)
+      );
+
+    const sections = manifest.sections.map((section) => ({
+      title: section.title,
+      lessons: section.lessons.map((lesson) => {
+        const previous = match(lesson, section.title);
+        const _id = previous?._id || new Types.ObjectId();
+
+        matched.add(_id.toString());
+
+        return {
+          ...previous,
+          _id,
+          externalId: lesson.externalId,
+          title: lesson.title,
+          description: lesson.description || '',
+          videoUrl: lesson.videoUrl,
+          videoSection: section.title,
+          videoLength: lesson.videoLength,
+          videoPlayer: lesson.videoPlayer || '',
+          suggestion: lesson.suggestion || '',
+          links: lesson.links.map(({ title, url }) => ({ title, url }))
+        };
+      })
+    }));
+
+    course.set(
+      'courseData',
+      sections.flatMap((section) => section.lessons)
+    );
+    course.set(
+      'sections',
+      sections.map((section) => {
+        const previous = course.sections.find(({ title }) => title === section.title);
+
+        return {
+          ...(previous ? { _id: previous._id } : {}),
+          title: section.title,
+          lessons: section.lessons.map(({ _id }) => _id)
+        };
+      })
+    );
+    course.syncSections();
+  };
+
+  /**
+   * @description Create or update the courses of a manifest, keyed by their externalId.
+   * Nothing is written unless every course is valid, and nothing at all on a dry run.
+   * New courses are drafts owned by the importer.
+   *
+   * @param {Object} manifest - The courses read from the manifest, and the errors found reading it
+   * @param {string} ownerId - The id of the user importing the manifest
+   * @param {boolean} dryRun - Only report what the import would do
+   *
+   * @returns The errors, and the action taken or planned for each course
+   */
+  importCourses = async (
+    manifest: { courses: IManifestCourse[]; errors: IImportError[] },
+    ownerId: string,
+    dryRun: boolean
+  ) => {
+    const { courses } = manifest;
+    const errors = [...manifest.errors, ...(await this.validate(courses))].sort(
+      (a, b) => a.row - b.row
+    );
+
+    if (errors.length) return { errors, results: [] as IImportResult[] };
+
+    const results: IImportResult[] = [];
+
+    for (const manifest of courses) {
+      const found = await Course.findOne({ externalId: manifest.externalId });
+      const course =
+        found ||
+        new Course({ externalId: manifest.externalId, owners: [ownerId] });
+
+      const before = found ? snapshot(found) : '';
+      await this.apply(course, manifest);
+
+      const action = !found
+        ? 'created'
+        : snapshot(course) === before
+        ? 'unchanged'
+        : 'updated';
+
+      if (!dryRun && action !== 'unchanged') {
+        await course.save();
+        await CourseService.clearCache(course._id.toString());
+      }
+
+      results.push({
+        row: manifest.row,
+        externalId: manifest.externalId,
+        action,
+        courseId: dryRun && !found ? undefined : course._id
+      });
+    }
+
+    return { errors, results };
+  };
+}
+
+export default new ImportService();
@@ -1,42 +1,401 @@
-import { NextFunction, Response } from 'express';
-import catchAsyncErrors from '../middleware/catchAsyncErrors';
+import crypto from 'crypto';
+import { Response } from 'express';
 import Order from '../models/order.model';
+import User, { IUser } from '../models/user.model';
+import Course, { ICourse } from '../models/course.model';
+import Notification from '../models/notification';
+import sendMail from '../utils/sendMail';
+import { redis } from '../utils/redis';
+import { logger } from '../utils/logger';
+import { config } from '../utils/config';
+import ErrorHandler from '../utils/ErrorHandler';
+import CouponService, { IQuote } from './coupon.service';
+import { paymentCurrency, paymentProvider } from '../utils/payment';
+import { IListOptions, IListQuery, paginate } from '../utils/listQuery';
+
+// number of days after a purchase during which a student can ask for a refund
+const { refundWindowDays } = config.payment;
+
+// the filters and sorts of the admin order listing
+export const orderListOptions: IListOptions = {
+  filters: {
+    status: 'string',
+    provider: 'string',
+    currency: 'string',
+    courseId: 'string',
+    userId: 'string',
+    coupon: 'string',
+    'refundRequest.status': 'string',
+    amount: 'number',
+    createdAt: 'date'
+  },
+  sorts: ['createdAt', 'amount']
+};
 
 class OrderService {
-  createNewOrder: any = catchAsyncErrors(
-    async (data: any, res: Response, next: NextFunction) => {
-      const order = await Order.create(data);
-      
-      res.status(201).json({
-        success: true,
-        order
-      })
+  /**
+   * @description Create a payment intent with the payment provider and a pending order for it.
+   * The course is only granted once the provider confirms the payment through the webhook.
+   *
+   * Orders made free by a coupon skip the payment provider and are confirmed right away.
+   *
+   * @param {IUser} user - The buyer
+   * @param {ICourse} course - The course being bought
+   * @param {IQuote} quote - The price of the course, with the coupon applied if any
+   *
+   * @returns {Object} The pending order and the client secret used by the frontend to complete the payment
+   * @throws {ErrorHandler} If a free order's coupon was fully redeemed since it was quoted (HTTP status code 422)
+   */
+  createPendingOrder = async (user: IUser, course: ICourse, quote: IQuote) => {
+    const userId = user._id.toString();
+    const courseId = course._id.toString();
+
+    const orderData = {
+      courseId,
+      userId,
+      status: 'pending',
+      amount: quote.finalPrice,
+      currency: paymentCurrency,
+      coupon: quote.coupon?.code,
+      discount: quote.discount
+    };
+
+    if (quote.finalPrice <= 0) {
+      // nothing is paid, so a coupon used up in the meantime can still be refused
+      if (quote.coupon && !(await CouponService.redeem(quote.coupon.code)))
+        throw new ErrorHandler('This coupon has been fully redeemed', 422);
+
+      const reference = `free_${crypto.randomBytes(12).toString('hex')}`;
+
+      await Order.create({
+        ...orderData,
+        provider: 'free',
+        providerReference: reference
+      });
+
+      const order = await this.confirmOrder(reference, {}, true);
+
+      return { order, clientSecret: null };
     }
-  );
-  
+
+    const intent = await paymentProvider.createPaymentIntent({
+      amount: quote.finalPrice,
+      currency: paymentCurrency,
+      metadata: { userId, courseId }
+    });
+
+    const order = await Order.create({
+      ...orderData,
+      provider: paymentProvider.name,
+      providerReference: intent.id
+    });
+
+    return { order, clientSecret: intent.clientSecret };
+  };
+
   /**
-   * @description Get a list of Orders sorted by createdAt
-   * 
-   * @param {Object} res - Express Response object for sending the HTTP response
-   * 
-   * @returns {Object} Response JSON with the orders details and success status
-   * @throws {Error} If an internal server error occurs
+   * @description Mark a pending order as paid, grant the course to the buyer and send the order confirmation.
+   * Orders that are unknown or already processed are ignored, so repeated webhooks are harmless.
+   *
+   * @param {string} reference - The payment provider's reference for the order
+   * @param {Object} payment_info - The payment details sent by the provider
+   * @param {boolean} [couponRedeemed] - Whether the redemption of the order's coupon is already counted
+   *
+   * @returns {Object | null} The confirmed order, or null if there was no pending order to confirm
    */
-   getAllOrders = async (res: Response) => {
+  confirmOrder = async (reference: string, payment_info: object, couponRedeemed = false) => {
+    const order = await Order.findOneAndUpdate(
+      { providerReference: reference, status: 'pending' },
+      { status: 'paid', payment_info },
+      { new: true }
+    );
+
+    if (!order) return null;
+
+    // the coupon was used up by other orders since this one was quoted, but the payment
+    // already went through at the discounted price
+    if (order.coupon && !couponRedeemed && !(await CouponService.redeem(order.coupon)))
+      logger.warn('Coupon redeemed past its maximum redemptions', {
+        orderId: order._id?.toString(),
+        coupon: order.coupon
+      });
+
+    const user = await User.findById(order.userId);
+    const course = await Course.findById(order.courseId);
+
+    if (!user || !course) return order;
+
+    // add the course to the list of courses bought by the user
+    if (!user.courses.find((item) => item.courseId === order.courseId)) {
+      user.courses.push({ courseId: order.courseId });
+      await user.save();
+
+      // keep the session copy in sync
+      await redis.set(order.userId, JSON.stringify(user));
+
+      // only count the purchase of a course the user didn't own yet
+      await Course.updateOne({ _id: course._id }, { $inc: { purchased: 1 } });
+    }
+
+    await Notification.create({
+      userId: user._id,
+      courseId: order.courseId,
+      title: 'New Order',
+      message: `You have a new order from ${course.name}`
+    });
+
+    const mailData = {
+      order: {
+        _id: order._id.toString().slice(0, 6),
+        name: course.name,
+        price: order.amount,
+        currency: order.currency.toUpperCase(),
+        userName: user.name,
+        date: new Date().toLocaleDateString()
+      }
+    };
+
     try {
-      const orders = await Order.find().sort({ createdAt: -1 });
-  
-      res.json({
-        success: true,
-        nbHits: orders.length,
-        orders,
+      await sendMail({
+        email: user.email,
+        subject: 'Order Confirmation',
+        template: 'order-confirmation.ejs',
+        data: mailData
       });
     } catch (error: any) {
-      res.status(500).json({
-        success: false,
-        error: `Error processing getAllOrders: ${error.message}`,
-      });
+      // the payment is confirmed, so a failed email must not fail the webhook
+      logger.error('Error sending order confirmation email', { orderId: order._id?.toString(), error });
+    }
+
+    return order;
+  };
+
+  /**
+   * @description Mark a pending order as failed
+   *
+   * @param {string} reference - The payment provider's reference for the order
+   * @param {Object} payment_info - The payment details sent by the provider
+   */
+  failOrder = async (reference: string, payment_info: object) => {
+    return await Order.findOneAndUpdate(
+      { providerReference: reference, status: 'pending' },
+      { status: 'failed', payment_info },
+      { new: true }
+    );
+  };
+
+  /**
+   * @description Refund a paid order in full or in part and revoke the buyer's access to the course
+   *
+   * @param {string} id - The ID of the order to refund
+   * @param {number} [amount] - The amount to refund, defaults to the full order amount
+   *
+   * @returns {Object} The refunded order
+   * @throws {ErrorHandler} If the order is not found (HTTP status code 404)
+   * @throws {ErrorHandler} If the order has not been paid, is being or was already refunded (HTTP status code 409)
+   * @throws {ErrorHandler} If the amount is not between 0 and the order amount (HTTP status code 422)
+   */
+  refundOrder = async (id: string, amount?: number) => {
+    const paidOrder = await Order.findById(id);
+
+    if (!paidOrder) throw new ErrorHandler('Order not found', 404);
+
+    if (paidOrder.status !== 'paid')
+      throw new ErrorHandler(`Cannot refund an order that is ${paidOrder.status}`, 409);
+
+    const refundAmount = amount ?? paidOrder.amount;
+
+    if (!(refundAmount > 0 && refundAmount <= paidOrder.amount))
+      throw new ErrorHandler(
+        `Refund amount must be between 0 and ${paidOrder.amount}`,
+        422
+      );
+
+    // claim the order, a concurrent refund of it no longer finds it paid
+    const order = await Order.findOneAndUpdate(
+      { _id: id, status: 'paid' },
+      { status: 'refunding' },
+      { new: true }
+    );
+
+    if (!order) throw new ErrorHandler('The order is already being refunded', 409);
+
+    let refund;
+
+    try {
+      refund = await paymentProvider.refundPayment(order.providerReference, refundAmount);
+    } catch (error) {
+      // nothing was refunded, the order can be refunded again
+      await Order.updateOne({ _id: id, status: 'refunding' }, { status: 'paid' });
+      throw error;
+    }
+
+    order.status = 'refunded';
+    order.refundedAmount = refundAmount;
+    order.refundReference = refund.id;
+    order.refundedAt = new Date();
+
+    if (order.refundRequest?.status === 'pending') {
+      order.refundRequest.status = 'approved';
+      order.refundRequest.reviewedAt = new Date();
     }
+
+    await order.save();
+
+    const user = await User.findById(order.userId);
+    const course = await Course.findById(order.courseId);
+
+    // remove the course from the list of courses bought by the user
+    if (user) {
+      const courses = user.courses.filter((item) => item.courseId !== order.courseId);
+      const removed = courses.length < user.courses.length;
+
+      user.courses = courses;
+      await user.save();
+
+      // keep the session copy in sync
+      await redis.set(order.userId, JSON.stringify(user));
+
+      // only uncount the purchase of a course the user still had
+      if (removed)
+        await Course.updateOne(
+          { _id: order.courseId, purchased: { $gt: 0 } },
+          { $inc: { purchased: -1 } }
+        );
+    }
+
+    await Notification.create({
+      userId: order.userId,
+      courseId: order.courseId,
+      title: 'Order Refunded',
+      message: `${refundAmount} ${order.currency.toUpperCase()} was refunded for ${course?.name} to ${user?.name}`
+    });
+
+    if (user) {
+      const mailData = {
+        refund: {
+          orderId: order._id.toString().slice(0, 6),
+          name: course?.name,
+          paid: order.amount,
+          amount: refundAmount,
+          currency: order.currency.toUpperCase(),
+          userName: user.name,
+          date: order.refundedAt.toLocaleDateString()
+        }
+      };
+
+      try {
+        await sendMail({
+          email: user.email,
+          subject: 'Refund Receipt',
+          template: 'refund-receipt.ejs',
+          data: mailData
+        });
+      } catch (error: any) {
+        // the money is already refunded, so a failed email must not fail the refund
+        logger.error('Error sending refund receipt email', { orderId: order._id?.toString(), error });
+      }
+    }
+
+    return order;
+  };
+
+  /**
+   * @description Let a student ask for a refund of one of their paid orders within the refund window
+   *
+   * @param {string} id - The ID of the order
+   * @param {string} userId - The ID of the student asking for the refund
+   * @param {string} [reason] - Why the student wants a refund
+   *
+   * @returns {Object} The order with its pending refund request
+   * @throws {ErrorHandler} If the order is not found or doesn't belong to the student (HTTP status code 404)
+   * @throws {ErrorHandler} If the order isn't paid or a refund was already requested (HTTP status code 409)
+   * @throws {ErrorHandler} If the refund window has passed (HTTP status code 403)
+   */
+  requestRefund = async (id: string, userId: string, reason?: string) => {
+    const order = await Order.findById(id);
+
+    if (!order || order.userId !== userId)
+      throw new ErrorHandler('Order not found', 404);
+
+    if (order.status !== 'paid')
+      throw new ErrorHandler(`Cannot refund an order that is ${order.status}`, 409);
+
+    if (order.refundRequest?.status)
+      throw new ErrorHandler(
+        `A refund was already requested for this order (${order.refundRequest.status})`,
+        409
+      );
+
+    const windowEnd = order.createdAt.getTime() + refundWindowDays * 24 * 60 * 60 * 1000;
+
+    if (Date.now() > windowEnd)
+      throw new ErrorHandler(
+        `Refunds can only be requested within ${refundWindowDays} days of purchase`,
+        403
+      );
+
+    order.refundRequest = {
+      status: 'pending',
+      reason,
+      requestedAt: new Date()
+    };
+
+    await order.save();
+
+    await Notification.create({
+      userId,
+      courseId: order.courseId,
+      title: 'New Refund Request',
+      message: `A student has requested a refund for order ${order._id}`
+    });
+
+    return order;
+  };
+
+  /**
+   * @description Reject a pending refund request
+   *
+   * @param {string} id - The ID of the order
+   *
+   * @returns {Object} The order with its rejected refund request
+   * @throws {ErrorHandler} If the order is not found (HTTP status code 404)
+   * @throws {ErrorHandler} If the order has no pending refund request (HTTP status code 409)
+   */
+  rejectRefundRequest = async (id: string) => {
+    const order = await Order.findById(id);
+
+    if (!order) throw new ErrorHandler('Order not found', 404);
+
+    if (order.refundRequest?.status !== 'pending')
+      throw new ErrorHandler('This order has no pending refund request', 409);
+
+    order.refundRequest.status = 'rejected';
+    order.refundRequest.reviewedAt = new Date();
+
+    await order.save();
+
+    return order;
+  };
+
+  /**
+   * @description Get a page of orders
+   *
+   * @param {Object} res - Express Response object for sending the HTTP response
+   * @param {IListQuery} listQuery - The pagination, sort and filters parsed with orderListOptions
+   *
+   * @returns {Object} Response JSON with the orders details and success status
+   * @throws {Error} If an internal server error occurs
+   */
+   getAllOrders = async (res: Response, listQuery: IListQuery) => {
+    const { items: orders, pagination } = await paginate(Order, listQuery);
+
+    res.json({
+      success: true,
+      nbHits: orders.length,
+      orders,
+      pagination
+    });
   }
 }
 
@@ -0,0 +1,173 @@
+import { ICourse } from '../models/course.model';
+import Progress, { IProgress } from '../models/progress.model';
+import ErrorHandler from '../utils/ErrorHandler';
+
+export interface IProgressSummary {
+  completedLessons: number;
+  totalLessons: number;
+  percentage: number;
+  completedAt?: Date;
+  lessons: {
+    contentId: string;
+    completed: boolean;
+    lastPosition: number;
+  }[];
+}
+
+interface ILessonProgressUpdate {
+  completed?: boolean;
+  position?: number;
+}
+
+class ProgressService {
+  /**
+   * @description Compute the completion summary of a course for a progress record.
+   * Only lessons that still exist in the course's courseData are counted.
+   *
+   * @param {ICourse} course - The course the progress belongs to
+   * @param {IProgress | null} progress - The user's progress record, if any
+   */
+  summarize = (course: ICourse, progress: IProgress | null): IProgressSummary => {
+    const contentIds = course.courseData.map((item) => item._id.toString());
+
+    const lessons = (progress?.lessons || [])
+      .filter((lesson) => contentIds.includes(lesson.contentId))
+      .map(({ contentId, completed, lastPosition }) => ({
+        contentId,
+        completed,
+        lastPosition
+      }));
+
+    const completedLessons = lessons.filter((lesson) => lesson.completed).length;
+    const totalLessons = contentIds.length;
+
+    return {
+      completedLessons,
+      totalLessons,
+      percentage: totalLessons
+        ? Math.round((completedLessons / totalLessons) * 100)
+        : 0,
+      completedAt: progress?.completedAt,
+      lessons
+    };
+  };
+
+  /**
+   * @description Get a user's progress summary for a course
+   *
+   * @param {string} userId - The ID of the student
+   * @param {ICourse} course - The course to get the progress for
+   */
+  getCourseProgress = async (userId: string, course: ICourse) => {
+    const progress = await Progress.findOne({
+      userId,
+      courseId: course._id.toString()
+    });
+
+    return this.summarize(course, progress);
+  };
+
+  /**
+   * @description Record the playback position and/or completion of a lesson.
+   * The position is clamped to the lesson's videoLength.
+   *
+   * @param {string} userId - The ID of the student
+   * @param {ICourse} course - The course containing the lesson
+   * @param {string} contentId - The ID of the courseData item
+   * @param {Object} update - The completion flag and/or last playback position
+   *
+   * @returns {Object} The updated progress summary
+   * @throws {ErrorHandler} If the lesson does not belong to the course (HTTP status code 404)
+   */
+  updateLessonProgress = async (
+    userId: string,
+    course: ICourse,
+    contentId: string,
+    { completed, position }: ILessonProgressUpdate
+  ) => {
+    const courseContent = course.courseData.find((item: any) =>
+      item._id.equals(contentId)
+    );
+
+    if (!courseContent)
+      throw new ErrorHandler('Course content not found.', 404);
+
+    const courseId = course._id.toString();
+    const contentIds = course.courseData.map((item) => item._id.toString());
+
+    // every change is a single atomic update, so requests from several tabs don't overwrite each
+    // other. MongoDB retries the upsert that loses to a concurrent one on the unique index.
+    await Progress.updateOne(
+      { userId, courseId },
+      { $setOnInsert: { lessons: [] } },
+      { upsert: true }
+    );
+
+    await Progress.updateOne(
+      { userId, courseId, 'lessons.contentId': { $ne: contentId } },
+      { $push: { lessons: { contentId } } }
+    );
+
+    const update: {
+      $set: { [path: string]: number | boolean | Date };
+      $unset?: { [path: string]: 1 };
+    } = { $set: {} };
+    const arrayFilters: { [path: string]: any }[] = [];
+
+    if (typeof position === 'number' && position >= 0) {
+      update.$set['lessons.$[lesson].lastPosition'] = courseContent.videoLength
+        ? Math.min(position, courseContent.videoLength)
+        : position;
+      arrayFilters.push({ 'lesson.contentId': contentId });
+    }
+
+    // only a change of completion moves the lesson's completedAt
+    if (typeof completed === 'boolean') {
+      update.$set['lessons.$[changed].completed'] = completed;
+
+      if (completed) update.$set['lessons.$[changed].completedAt'] = new Date();
+      else update.$unset = { 'lessons.$[changed].completedAt': 1 };
+
+      arrayFilters.push({ 'changed.contentId': contentId, 'changed.completed': { $ne: completed } });
+    }
+
+    if (arrayFilters.length)
+      await Progress.updateOne({ userId, courseId }, update, { arrayFilters });
+
+    // the course is complete once every lesson still in it has been completed, worked out by the
+    // update itself from the lessons as they are now, keeping the date it was first completed
+    const completedLessons = {
+      $size: {
+        $filter: {
+          input: '$lessons',
+          as: 'lesson',
+          cond: {
+            $and: ['$$lesson.completed', { $in: ['$$lesson.contentId', contentIds] }]
+          }
+        }
+      }
+    };
+
+    const progress = await Progress.findOneAndUpdate(
+      { userId, courseId },
+      [
+        {
+          $set: {
+            completedAt: {
+              $cond: [
+                { $eq: [completedLessons, contentIds.length] },
+                { $ifNull: ['$completedAt', new Date()] },
+                '$$REMOVE'
+              ]
+            }
+          }
+        }
+      ],
+      { new: true }
+    );
+
+    return this.summarize(course, progress);
+  };
+}
+
+export default new ProgressService();
@@ -0,0 +1,166 @@
+import { Request } from 'express';
+import Role, { IRole } from '../models/role.model';
+import User from '../models/user.model';
+import ErrorHandler from '../utils/ErrorHandler';
+import { redis } from '../utils/redis';
+import { Permission, defaultRoles, permissions } from '../utils/permissions';
+
+// the admin role always has every permission and can't be edited
+const adminRole = 'admin';
+
+const roleKey = (name: string) => `role:${name}`;
+
+// the user making a change to roles, with the permissions of their role
+export interface IRoleActor {
+  id: string;
+  role: string;
+  permissions: Permission[];
+}
+
+// the actor of a request, once requirePermission has loaded the permissions of their role
+export const roleActorOf = (req: Request): IRoleActor => ({
+  id: req.user?._id?.toString() || '',
+  role: req.user?.role || '',
+  permissions: req.permissions || []
+});
+
+class RoleService {
+  /**
+   * @description Create the default roles that don't exist yet, and give the admin role
+   * every permission, including those added since it was created
+   */
+  ensureDefaultRoles = async () => {
+    for (const role of defaultRoles) {
+      await Role.updateOne(
+        { name: role.name },
+        { $setOnInsert: { permissions: role.permissions } },
+        { upsert: true }
+      );
+    }
+
+    await Role.updateOne({ name: adminRole }, { permissions });
+    await redis.del(roleKey(adminRole));
+  };
+
+  getAllRoles = async () => Role.find().sort({ name: 1 });
+
+  roleExists = async (name: string) => !!(await Role.exists({ name }));
+
+  /**
+   * @description Get the permissions granted to a role, cached in redis
+   *
+   * @param {string} name - The role name
+   * @returns {Permission[]} The permissions, none if the role doesn't exist
+   */
+  getPermissions = async (name: string): Promise<Permission[]> => {
+    const cached = await redis.get(roleKey(name));
+
+    if (cached) return JSON.parse(cached);
+
+    const role = await Role.findOne({ name });
+    const rolePermissions = role?.permissions || [];
+
+    await redis.set(roleKey(name), JSON.stringify(rolePermissions), 'EX', 3600); // 1 hour
+
+    return rolePermissions;
+  };
+
+  /**
+   * @description Make sure an actor holds every permission of a role they grant, edit or take away,
+   * so no one can hand out more than they have
+   *
+   * @param {IRoleActor} actor - The user making the change
+   * @param {string} name - The role name
+   * @param {Permission[]} rolePermissions - The permissions of the role
+   *
+   * @throws {ErrorHandler} If the actor lacks one of the permissions (HTTP status code 403)
+   */
+  assertCanManage = (actor: IRoleActor, name: string, rolePermissions: Permission[]) => {
+    const missing = rolePermissions.filter(
+      (permission) => !actor.permissions.includes(permission)
+    );
+
+    if (missing.length)
+      throw new ErrorHandler(
+        `You cannot manage the ${name} role without the ${missing.join(', ')} permission(s)`,
+        403,
+        { code: 'permission_denied' }
+      );
+  };
+
+  /**
+   * @description Create a role
+   *
+   * @throws {ErrorHandler} If the actor lacks one of the permissions of the role (HTTP status code 403)
+   * @throws {ErrorHandler} If a role with the same name exists (HTTP status code 409)
+   */
+  createRole = async (actor: IRoleActor, data: Partial<IRole>) => {
+    this.assertCanManage(actor, data.name || '', data.permissions || []);
+
+    if (data.name && (await this.roleExists(data.name.toLowerCase())))
+      throw new ErrorHandler(`Role '${data.name}' already exists`, 409);
+
+    return Role.create(data);
+  };
+
+  /**
+   * @description Update the description and permissions of a role
+   *
+   * @throws {ErrorHandler} If the role is the admin role or the actor's own role (HTTP status code 403)
+   * @throws {ErrorHandler} If the actor lacks a permission the role has or is given (HTTP status code 403)
+   * @throws {ErrorHandler} If the role is not found (HTTP status code 404)
+   */
+  updateRole = async (actor: IRoleActor, name: string, data: Partial<IRole>) => {
+    if (name === adminRole)
+      throw new ErrorHandler('The admin role cannot be changed', 403);
+
+    if (name === actor.role)
+      throw new ErrorHandler('You cannot change your own role', 403, {
+        code: 'permission_denied'
+      });
+
+    const role = await Role.findOne({ name });
+
+    if (!role) throw new ErrorHandler('Role not found', 404);
+
+    this.assertCanManage(actor, name, role.permissions);
+    if (data.permissions !== undefined) this.assertCanManage(actor, name, data.permissions);
+
+    if (data.description !== undefined) role.description = data.description;
+    if (data.permissions !== undefined) role.permissions = data.permissions;
+
+    await role.save();
+    await redis.del(roleKey(name));
+
+    return role;
+  };
+
+  /**
+   * @description Delete a role that is not a default role and is not assigned to any user
+   *
+   * @throws {ErrorHandler} If the role is a default role (HTTP status code 403)
+   * @throws {ErrorHandler} If the role is not found (HTTP status code 404)
+   * @throws {ErrorHandler} If users still have the role (HTTP status code 409)
+   */
+  deleteRole = async (name: string) => {
+    if (defaultRoles.some((role) => role.name === name))
+      throw new ErrorHandler(`The ${name} role cannot be deleted`, 403);
+
+    const role = await Role.findOne({ name });
+
+    if (!role) throw new ErrorHandler('Role not found', 404);
+
+    const users = await User.countDocuments({ role: name });
+
+    if (users)
+      throw new ErrorHandler(
+        `The ${name} role is still assigned to ${users} user(s)`,
+        409
+      );
+
+    await role.deleteOne();
+    await redis.del(roleKey(name));
+  };
+}
+
+export default new RoleService();
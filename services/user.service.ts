@@ -2,6 +2,21 @@ import { Response } from 'express';
 import { redis } from '../utils/redis';
 import User from '../models/user.model';
 import ErrorHandler from '../utils/ErrorHandler';
+import { revokeAllSessions } from '../utils/session';
+import { IListOptions, IListQuery, paginate } from '../utils/listQuery';
+import RoleService, { IRoleActor } from './role.service';
+
+// the filters and sorts of the admin user listing
+export const userListOptions: IListOptions = {
+  filters: {
+    role: 'string',
+    email: 'string',
+    isVerified: 'boolean',
+    twoFactorEnabled: 'boolean',
+    createdAt: 'date'
+  },
+  sorts: ['createdAt', 'name', 'email']
+};
 
 class UserService {
   getUserById = async (id: string, res: Response) => {
@@ -17,36 +32,75 @@ class UserService {
   };
 
   /**
-   * @description Get a list of users sorted by createdAt
+   * @description Get a page of users
    *
    * @param {Object} res - Express Response object for sending the HTTP response
+   * @param {IListQuery} listQuery - The pagination, sort and filters parsed with userListOptions
+   * @param {boolean} [locked] - Only get the users whose account is currently locked
    */
-  getAllUsers = async (res: Response) => {
-    try {
-      const users = await User.find().sort({ createdAt: -1 });
+  getAllUsers = async (res: Response, listQuery: IListQuery, locked = false) => {
+    const filter = locked ? { lockedUntil: { $gt: new Date() } } : {};
+    const { items: users, pagination } = await paginate(User, listQuery, filter);
 
-      res.json({
-        success: true,
-        nbHits: users.length,
-        users
-      });
-    } catch (error: any) {
-      res.status(500).json({
-        success: false,
-        error: `Error processing getAllUsers: ${error.message}`
-      });
-    }
+    res.json({
+      success: true,
+      nbHits: users.length,
+      users,
+      pagination
+    });
   };
 
-  updateUserRole = async (res: Response, id: string, role: string) => {
-    {
-      const user = await User.findByIdAndUpdate(id, { role }, { new: true });
-
-      res.status(201).json({
-        success: true,
-        user
+  /**
+   * @description Assign one of the defined roles to a user. A role can only be given by someone
+   * who holds every one of its permissions, to a user whose current role they could have given,
+   * and never to themselves.
+   *
+   * @param {Object} actor - The id and permissions of the user making the change
+   *
+   * @returns {string} The role the user had before
+   * @throws {ErrorHandler} If changing their own role (HTTP status code 403)
+   * @throws {ErrorHandler} If the actor lacks a permission of the new or the current role (HTTP status code 403)
+   * @throws {ErrorHandler} If the role is not defined (HTTP status code 422)
+   * @throws {ErrorHandler} If the user is not found (HTTP status code 404)
+   */
+  updateUserRole = async (
+    res: Response,
+    actor: IRoleActor,
+    id: string,
+    role: string
+  ) => {
+    if (actor.id === id)
+      throw new ErrorHandler('You cannot change your own role', 403, {
+        code: 'permission_denied'
       });
-    }
+
+    if (!role || !(await RoleService.roleExists(role)))
+      throw new ErrorHandler(`Role '${role}' is not defined`, 422);
+
+    const current = await User.findById(id).select('role');
+
+    if (!current) throw new ErrorHandler('User not found', 404);
+
+    for (const name of [role, current.role])
+      RoleService.assertCanManage(actor, name, await RoleService.getPermissions(name));
+
+    // only if the role is still the one checked, the user before the update
+    const user = await User.findOneAndUpdate({ _id: id, role: current.role }, { role });
+
+    if (!user) throw new ErrorHandler('The role of the user has just changed, please retry', 409);
+
+    const previousRole = user.role;
+    user.role = role;
+
+    // update user on redis
+    if (await redis.exists(id)) await redis.set(id, JSON.stringify(user));
+
+    res.status(201).json({
+      success: true,
+      user
+    });
+
+    return previousRole;
   };
 
   deleteUserById = async (id: string) => {
@@ -56,6 +110,9 @@ class UserService {
 
     await user.deleteOne();
     await redis.del(id);
+    await revokeAllSessions(id);
+
+    return user;
   };
 }
 
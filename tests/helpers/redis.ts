@@ -0,0 +1,7 @@
+import RedisMock from 'ioredis-mock';
+
+// an in-memory redis standing in for utils/redis, e.g
+// jest.mock('../../utils/redis', () => require('../helpers/redis'))
+export const redis = new RedisMock();
+
+export const pingRedis = async () => true;
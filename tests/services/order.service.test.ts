@@ -0,0 +1,168 @@
+import { Types } from 'mongoose';
+import Order from '../../models/order.model';
+import User from '../../models/user.model';
+import Course from '../../models/course.model';
+import Notification from '../../models/notification';
+import OrderService from '../../services/order.service';
+import sendMail from '../../utils/sendMail';
+import { paymentProvider } from '../../utils/payment';
+
+jest.mock('../../utils/redis', () => require('../helpers/redis'));
+jest.mock('../../utils/sendMail');
+
+// no database runs the tests: the queries are stubbed and the documents are never saved
+const userId = new Types.ObjectId().toString();
+const courseId = new Types.ObjectId().toString();
+
+const orderOf = (status: string) => {
+  const order = new Order({
+    userId,
+    courseId,
+    amount: 4999,
+    currency: 'usd',
+    provider: 'fake',
+    providerReference: 'fake_pi_1',
+    status
+  });
+  jest.spyOn(order, 'save').mockResolvedValue(order);
+  return order;
+};
+
+const userOwning = (...courseIds: string[]) => {
+  const user = new User({
+    _id: userId,
+    name: 'Learner',
+    email: 'learner@example.com',
+    courses: courseIds.map((id) => ({ courseId: id }))
+  });
+  jest.spyOn(user, 'save').mockResolvedValue(user);
+  return user;
+};
+
+const course = new Course({ _id: courseId, name: 'TypeScript' });
+
+describe('OrderService', () => {
+  let findOneAndUpdate: jest.SpyInstance;
+  let updateOrder: jest.SpyInstance;
+  let updateCourse: jest.SpyInstance;
+  let findUser: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+
+    findOneAndUpdate = jest.spyOn(Order, 'findOneAndUpdate');
+    updateOrder = jest.spyOn(Order, 'updateOne').mockResolvedValue({} as any);
+    updateCourse = jest.spyOn(Course, 'updateOne').mockResolvedValue({} as any);
+    findUser = jest.spyOn(User, 'findById');
+    jest.spyOn(Course, 'findById').mockResolvedValue(course);
+    jest.spyOn(Notification, 'create').mockResolvedValue({} as any);
+  });
+
+  describe('confirmOrder', () => {
+    it('grants the course and counts the purchase once the payment is confirmed', async () => {
+      const user = userOwning();
+      findOneAndUpdate.mockResolvedValue(orderOf('paid'));
+      findUser.mockResolvedValue(user);
+
+      const order = await OrderService.confirmOrder('fake_pi_1', { id: 'fake_pi_1' });
+
+      expect(order?.status).toBe('paid');
+      expect(findOneAndUpdate).toHaveBeenCalledWith(
+        { providerReference: 'fake_pi_1', status: 'pending' },
+        expect.objectContaining({ status: 'paid' }),
+        { new: true }
+      );
+      expect(user.courses.map((item) => item.courseId)).toEqual([courseId]);
+      expect(updateCourse).toHaveBeenCalledWith({ _id: course._id }, { $inc: { purchased: 1 } });
+      expect(sendMail).toHaveBeenCalledTimes(1);
+    });
+
+    it('ignores a repeated webhook of an order already confirmed', async () => {
+      // the order is no longer pending, so the claim finds nothing
+      findOneAndUpdate.mockResolvedValue(null);
+
+      expect(await OrderService.confirmOrder('fake_pi_1', {})).toBeNull();
+      expect(findUser).not.toHaveBeenCalled();
+      expect(updateCourse).not.toHaveBeenCalled();
+      expect(Notification.create).not.toHaveBeenCalled();
+      expect(sendMail).not.toHaveBeenCalled();
+    });
+
+    it('does not count the purchase of a course the user already owns', async () => {
+      const user = userOwning(courseId);
+      findOneAndUpdate.mockResolvedValue(orderOf('paid'));
+      findUser.mockResolvedValue(user);
+
+      await OrderService.confirmOrder('fake_pi_1', {});
+
+      expect(user.courses).toHaveLength(1);
+      expect(user.save).not.toHaveBeenCalled();
+      expect(updateCourse).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refundOrder', () => {
+    it('refunds a paid order and takes the course back', async () => {
+      const user = userOwning(courseId);
+      const refunding = orderOf('refunding');
+      jest.spyOn(Order, 'findById').mockResolvedValue(orderOf('paid'));
+      findOneAndUpdate.mockResolvedValue(refunding);
+      findUser.mockResolvedValue(user);
+      const refundPayment = jest.spyOn(paymentProvider, 'refundPayment');
+
+      const order = await OrderService.refundOrder(refunding._id.toString());
+
+      expect(findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: refunding._id.toString(), status: 'paid' },
+        { status: 'refunding' },
+        { new: true }
+      );
+      expect(refundPayment).toHaveBeenCalledTimes(1);
+      expect(refundPayment).toHaveBeenCalledWith('fake_pi_1', 4999);
+      expect(order).toMatchObject({ status: 'refunded', refundedAmount: 4999 });
+      expect(user.courses).toHaveLength(0);
+      expect(updateCourse).toHaveBeenCalledWith(
+        { _id: courseId, purchased: { $gt: 0 } },
+        { $inc: { purchased: -1 } }
+      );
+    });
+
+    it('refunds an order only once when it is refunded concurrently', async () => {
+      // the order was paid when read, but another refund claimed it first
+      jest.spyOn(Order, 'findById').mockResolvedValue(orderOf('paid'));
+      findOneAndUpdate.mockResolvedValue(null);
+      const refundPayment = jest.spyOn(paymentProvider, 'refundPayment');
+
+      await expect(OrderService.refundOrder(courseId)).rejects.toMatchObject({ statusCode: 409 });
+      expect(refundPayment).not.toHaveBeenCalled();
+      expect(updateCourse).not.toHaveBeenCalled();
+    });
+
+    it('refuses to refund an order that is not paid', async () => {
+      jest.spyOn(Order, 'findById').mockResolvedValue(orderOf('refunded'));
+      const refundPayment = jest.spyOn(paymentProvider, 'refundPayment');
+
+      await expect(OrderService.refundOrder(courseId)).rejects.toMatchObject({ statusCode: 409 });
+      expect(findOneAndUpdate).not.toHaveBeenCalled();
+      expect(refundPayment).not.toHaveBeenCalled();
+    });
+
+    it('lets the order be refunded again when the payment provider fails', async () => {
+      const refunding = orderOf('refunding');
+      jest.spyOn(Order, 'findById').mockResolvedValue(orderOf('paid'));
+      findOneAndUpdate.mockResolvedValue(refunding);
+      jest.spyOn(paymentProvider, 'refundPayment').mockRejectedValue(new Error('provider down'));
+
+      await expect(OrderService.refundOrder(refunding._id.toString())).rejects.toThrow(
+        'provider down'
+      );
+      expect(updateOrder).toHaveBeenCalledWith(
+        { _id: refunding._id.toString(), status: 'refunding' },
+        { status: 'paid' }
+      );
+      expect(refunding.save).not.toHaveBeenCalled();
+      expect(findUser).not.toHaveBeenCalled();
+    });
+  });
+});
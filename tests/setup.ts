@@ -0,0 +1,11 @@
+// the environment of the tests, read by utils/config the first time it is imported
+Object.assign(process.env, {
+  ACTIVATION_SECRET: 'test-activation-secret',
+  RESET_PASSWORD_SECRET: 'test-reset-password-secret',
+  ACCESS_TOKEN: 'test-access-token-secret',
+  REFRESH_TOKEN: 'test-refresh-token-secret',
+  TWO_FACTOR_SECRET: 'test-two-factor-secret',
+  PAYMENT_WEBHOOK_SECRET: 'test-webhook-secret',
+  LOGIN_LOCKOUT_THRESHOLD: '5',
+  LOG_LEVEL: 'error'
+});
@@ -0,0 +1,117 @@
+import { Request } from 'express';
+import { IUser } from '../../models/user.model';
+import { checkCredentials } from '../../utils/loginAttempts';
+import sendMail from '../../utils/sendMail';
+import { redis } from '../helpers/redis';
+
+jest.mock('../../utils/redis', () => require('../helpers/redis'));
+jest.mock('../../utils/sendMail');
+
+const email = 'learner@example.com';
+
+const request = (ip = '203.0.113.7') => ({ ip }) as Request;
+
+const userWith = (password: string) =>
+  ({
+    _id: 'user-1',
+    email,
+    name: 'Learner',
+    password,
+    save: jest.fn()
+  }) as unknown as IUser & { save: jest.Mock };
+
+const checkPassword = (password: string) => async (user: IUser) => user.password === password;
+
+// lift the backoff between attempts, to count failures up to the lockout
+const unblock = (ip = '203.0.113.7') =>
+  redis.del(`login-blocked:email:${email}`, `login-blocked:ip:${ip}`);
+
+const fail = async (user: IUser | null, req = request()) => {
+  await expect(checkCredentials(req, email, user, checkPassword('wrong'))).rejects.toMatchObject({
+    statusCode: 401,
+    code: 'invalid_credentials'
+  });
+  await unblock(req.ip);
+};
+
+describe('checkCredentials', () => {
+  beforeEach(async () => {
+    await redis.flushall();
+    jest.clearAllMocks();
+  });
+
+  it('returns the user when the credentials are correct', async () => {
+    const user = userWith('secret');
+
+    expect(await checkCredentials(request(), email, user, checkPassword('secret'))).toBe(user);
+  });
+
+  it('rejects wrong credentials and unknown emails alike', async () => {
+    await fail(userWith('secret'));
+    await fail(null);
+
+    expect(await redis.get(`login-failures:email:${email}`)).toBe('2');
+  });
+
+  it('clears the failures of the email after a success', async () => {
+    const user = userWith('secret');
+    await fail(user);
+    await fail(user);
+
+    await checkCredentials(request(), email, user, checkPassword('secret'));
+
+    expect(await redis.get(`login-failures:email:${email}`)).toBeNull();
+  });
+
+  it('delays the attempts on an email after 3 failures', async () => {
+    const user = userWith('secret');
+
+    for (let i = 0; i < 3; i++)
+      await expect(
+        checkCredentials(request(`198.51.100.${i}`), email, user, checkPassword('wrong'))
+      ).rejects.toMatchObject({ statusCode: 401 });
+
+    // even the right password waits for the backoff
+    await expect(
+      checkCredentials(request('198.51.100.9'), email, user, checkPassword('secret'))
+    ).rejects.toMatchObject({ statusCode: 429, code: 'too_many_attempts', retryAfter: 1 });
+  });
+
+  it('delays the attempts from an ip after 20 failures, whatever the email', async () => {
+    for (let i = 0; i < 20; i++)
+      await expect(
+        checkCredentials(request(), `learner${i}@example.com`, null, checkPassword('wrong'))
+      ).rejects.toMatchObject({ statusCode: 401 });
+
+    await expect(
+      checkCredentials(request(), email, userWith('secret'), checkPassword('secret'))
+    ).rejects.toMatchObject({ statusCode: 429, code: 'too_many_attempts' });
+  });
+
+  it('locks the account after 5 failures and emails the user', async () => {
+    const user = userWith('secret');
+
+    for (let i = 0; i < 5; i++) await fail(user);
+
+    expect(user.lockedUntil!.getTime()).toBeGreaterThan(Date.now());
+    expect(user.save).toHaveBeenCalledTimes(1);
+    expect(sendMail).toHaveBeenCalledWith(
+      expect.objectContaining({ email, template: 'account-locked-mail.ejs' })
+    );
+  });
+
+  it('refuses a locked account even with the right password', async () => {
+    const user = userWith('secret');
+    user.lockedUntil = new Date(Date.now() + 60 * 1000);
+
+    await expect(
+      checkCredentials(request(), email, user, checkPassword('secret'))
+    ).rejects.toMatchObject({ statusCode: 429, code: 'account_locked' });
+  });
+
+  it('does not lock an email without an account', async () => {
+    for (let i = 0; i < 5; i++) await fail(null);
+
+    expect(sendMail).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,82 @@
+import crypto from 'crypto';
+import { FakePaymentProvider } from '../../utils/payment';
+
+const provider = new FakePaymentProvider();
+
+const succeeded = JSON.stringify({
+  type: 'payment_intent.succeeded',
+  data: { object: { id: 'fake_pi_1', amount: 4999 } }
+});
+
+const now = () => Math.floor(Date.now() / 1000);
+
+describe('payment webhook signatures', () => {
+  it('accepts a payload signed with the webhook secret', () => {
+    const event = provider.constructEvent(Buffer.from(succeeded), provider.signPayload(succeeded));
+
+    expect(event).toEqual({
+      type: 'succeeded',
+      reference: 'fake_pi_1',
+      data: { id: 'fake_pi_1', amount: 4999 }
+    });
+  });
+
+  it('rejects a payload changed after it was signed', () => {
+    const signature = provider.signPayload(succeeded);
+    const tampered = succeeded.replace('4999', '1');
+
+    expect(() => provider.constructEvent(Buffer.from(tampered), signature)).toThrow(
+      expect.objectContaining({ statusCode: 400, message: 'Invalid payment webhook signature' })
+    );
+  });
+
+  it('rejects a signature made with another secret', () => {
+    const timestamp = now();
+    const forged = crypto
+      .createHmac('sha256', 'another-secret')
+      .update(`${timestamp}.${succeeded}`)
+      .digest('hex');
+
+    expect(() =>
+      provider.constructEvent(Buffer.from(succeeded), `t=${timestamp},v1=${forged}`)
+    ).toThrow(expect.objectContaining({ statusCode: 400 }));
+  });
+
+  it('rejects a missing or malformed signature header', () => {
+    ['', 'v1=abc', 't=123', 'garbage'].forEach((header) =>
+      expect(() => provider.constructEvent(Buffer.from(succeeded), header)).toThrow(
+        expect.objectContaining({ statusCode: 400 })
+      )
+    );
+  });
+
+  it('rejects a signature older than the tolerance, so webhooks cannot be replayed', () => {
+    const signature = provider.signPayload(succeeded, now() - 301);
+
+    expect(() => provider.constructEvent(Buffer.from(succeeded), signature)).toThrow(
+      expect.objectContaining({ statusCode: 400, message: 'Expired payment webhook signature' })
+    );
+  });
+
+  it('accepts a signature within the tolerance', () => {
+    const signature = provider.signPayload(succeeded, now() - 240);
+
+    expect(provider.constructEvent(Buffer.from(succeeded), signature).type).toBe('succeeded');
+  });
+
+  it('maps failed and unknown events', () => {
+    const failed = JSON.stringify({
+      type: 'payment_intent.payment_failed',
+      data: { object: { id: 'fake_pi_2' } }
+    });
+    const other = JSON.stringify({ type: 'charge.updated', data: { object: { id: 'ch_1' } } });
+
+    expect(provider.constructEvent(Buffer.from(failed), provider.signPayload(failed))).toMatchObject({
+      type: 'failed',
+      reference: 'fake_pi_2'
+    });
+    expect(provider.constructEvent(Buffer.from(other), provider.signPayload(other)).type).toBe(
+      'ignored'
+    );
+  });
+});
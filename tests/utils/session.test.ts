@@ -0,0 +1,106 @@
+import { Request } from 'express';
+import {
+  createSession,
+  getSession,
+  listSessions,
+  revokeSession,
+  rotateSession,
+  touchSession
+} from '../../utils/session';
+import { redis } from '../helpers/redis';
+
+jest.mock('../../utils/redis', () => require('../helpers/redis'));
+
+// the redis mock runs lua without cjson, so the session update script is played by this
+// stand-in: update the stored session only if it exists and its refresh token is still ARGV[3].
+// It is not atomic, the script is, so concurrent rotations are not covered here.
+(redis as any).eval = async (
+  script: string,
+  keyCount: number,
+  key: string,
+  fields: string,
+  ttl: number | 'KEEPTTL',
+  refreshTokenId?: string
+) => {
+  const stored = await redis.get(key);
+
+  if (!stored) return null;
+
+  const session = JSON.parse(stored);
+
+  if (refreshTokenId && session.refreshTokenId !== refreshTokenId) return null;
+
+  const updated = JSON.stringify({ ...session, ...JSON.parse(fields) });
+
+  // the mock ignores KEEPTTL, keep the time to live by hand
+  await redis.set(key, updated, 'EX', ttl === 'KEEPTTL' ? await redis.ttl(key) : ttl);
+
+  return updated;
+};
+
+const request = (ip = '203.0.113.7') =>
+  ({
+    ip,
+    get: () => 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/120.0 Safari/537.36'
+  }) as unknown as Request;
+
+describe('sessions', () => {
+  beforeEach(() => redis.flushall());
+
+  it('creates a session for the device of the request', async () => {
+    const session = await createSession('user-1', request());
+
+    expect(session).toMatchObject({ userId: 'user-1', device: 'Chrome on Windows', ip: '203.0.113.7' });
+    expect(await getSession(session.id)).toEqual(session);
+    expect(await redis.ttl(`session:${session.id}`)).toBe(259200);
+    expect(await listSessions('user-1')).toEqual([session]);
+  });
+
+  it('rotates the refresh token of a session and extends it', async () => {
+    const session = await createSession('user-1', request());
+    await redis.expire(`session:${session.id}`, 60);
+
+    const rotated = await rotateSession(session, request('198.51.100.1'));
+
+    expect(rotated).toMatchObject({ id: session.id, ip: '198.51.100.1' });
+    expect(rotated?.refreshTokenId).not.toBe(session.refreshTokenId);
+    expect(await getSession(session.id)).toEqual(rotated);
+    expect(await redis.ttl(`session:${session.id}`)).toBe(259200);
+  });
+
+  it('refuses to rotate with a refresh token that was already rotated', async () => {
+    const session = await createSession('user-1', request());
+    const rotated = await rotateSession(session, request());
+
+    // the holder of the old refresh token tries to use it again
+    expect(await rotateSession(session, request())).toBeNull();
+    expect(await getSession(session.id)).toEqual(rotated);
+  });
+
+  it('never resurrects a revoked session', async () => {
+    const session = await createSession('user-1', request());
+    await revokeSession(session);
+
+    expect(await rotateSession(session, request())).toBeNull();
+
+    await touchSession({ ...session, lastSeenAt: new Date(0).toISOString() }, request());
+
+    expect(await getSession(session.id)).toBeNull();
+    expect(await listSessions('user-1')).toEqual([]);
+  });
+
+  it('touches a session without changing its expiry or refresh token', async () => {
+    const session = await createSession('user-1', request());
+    await redis.expire(`session:${session.id}`, 600);
+
+    const stale = { ...session, lastSeenAt: new Date(Date.now() - 120 * 1000).toISOString() };
+    await touchSession(stale, request('198.51.100.1'));
+
+    const touched = await getSession(session.id);
+
+    expect(touched?.ip).toBe('198.51.100.1');
+    expect(touched?.refreshTokenId).toBe(session.refreshTokenId);
+    expect(await redis.ttl(`session:${session.id}`)).toBeGreaterThan(590);
+    expect(await redis.ttl(`session:${session.id}`)).toBeLessThanOrEqual(600);
+  });
+});
@@ -0,0 +1,78 @@
+import { claimTotpStep, verifyTotp } from '../../utils/totp';
+import { redis } from '../helpers/redis';
+
+jest.mock('../../utils/redis', () => require('../helpers/redis'));
+
+// the RFC 6238 test secret, '12345678901234567890' in base32, and its codes
+// cut to 6 digits at 59s (time step 1) and at 1111111109s (time step 37037036)
+const secret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const codeAt59 = '287082';
+const codeAt1111111109 = '081804';
+
+const at = (seconds: number) => jest.setSystemTime(seconds * 1000);
+
+describe('verifyTotp', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('accepts the code of the current time step and returns the step', () => {
+    at(59);
+    expect(verifyTotp(secret, codeAt59)).toBe(1);
+
+    at(1111111109);
+    expect(verifyTotp(secret, codeAt1111111109)).toBe(37037036);
+  });
+
+  it('accepts a code one time step early or late for clock drift', () => {
+    at(1111111109 - 30);
+    expect(verifyTotp(secret, codeAt1111111109)).toBe(37037036);
+
+    at(1111111109 + 30);
+    expect(verifyTotp(secret, codeAt1111111109)).toBe(37037036);
+  });
+
+  it('rejects a code more than one time step away', () => {
+    at(1111111109 + 60);
+    expect(verifyTotp(secret, codeAt1111111109)).toBeNull();
+
+    at(1111111109 - 60);
+    expect(verifyTotp(secret, codeAt1111111109)).toBeNull();
+  });
+
+  it('rejects wrong and malformed codes', () => {
+    at(59);
+
+    ['287083', '28708', '2870822', 'abcdef', ''].forEach((code) =>
+      expect(verifyTotp(secret, code)).toBeNull()
+    );
+  });
+});
+
+describe('claimTotpStep', () => {
+  beforeEach(() => redis.flushall());
+
+  it('lets a time step be used once', async () => {
+    expect(await claimTotpStep('user-1', 1000)).toBe(true);
+    expect(await claimTotpStep('user-1', 1000)).toBe(false);
+  });
+
+  it('rejects the steps before the last one used, so older codes cannot be replayed', async () => {
+    expect(await claimTotpStep('user-1', 1001)).toBe(true);
+    expect(await claimTotpStep('user-1', 1000)).toBe(false);
+    expect(await claimTotpStep('user-1', 1002)).toBe(true);
+  });
+
+  it('keeps the steps of each user apart', async () => {
+    expect(await claimTotpStep('user-1', 1000)).toBe(true);
+    expect(await claimTotpStep('user-2', 1000)).toBe(true);
+  });
+
+  it('forgets the used step once its codes have expired', async () => {
+    await claimTotpStep('user-1', 1000);
+
+    const ttl = await redis.ttl('2fa-step:user-1');
+
+    expect(ttl).toBeGreaterThan(60);
+    expect(ttl).toBeLessThanOrEqual(120);
+  });
+});
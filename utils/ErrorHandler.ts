@@ -1,8 +1,76 @@
+import { IFieldError } from './schema';
+
+/**
+ * Machine readable error codes, stable so clients can rely on them instead of the messages.
+ * Errors without a specific code get the code of their HTTP status.
+ */
+export type ErrorCode =
+  // by HTTP status
+  | 'bad_request'
+  | 'unauthenticated'
+  | 'forbidden'
+  | 'not_found'
+  | 'conflict'
+  | 'payload_too_large'
+  | 'validation_failed'
+  | 'too_many_requests'
+  | 'internal_error'
+  | 'bad_gateway'
+  | 'service_unavailable'
+  // specific errors
+  | 'invalid_credentials'
+  | 'invalid_code'
+  | 'invalid_token'
+  | 'token_expired'
+  | 'refresh_token_reused'
+  | 'email_taken'
+  | 'account_locked'
+  | 'too_many_attempts'
+  | 'two_factor_required'
+  | 'permission_denied'
+  | 'course_not_purchased'
+  | 'already_purchased'
+  | 'duplicate_key';
+
+const statusCodes: { [status: number]: ErrorCode } = {
+  400: 'bad_request',
+  401: 'unauthenticated',
+  403: 'forbidden',
+  404: 'not_found',
+  409: 'conflict',
+  413: 'payload_too_large',
+  422: 'validation_failed',
+  429: 'too_many_requests',
+  500: 'internal_error',
+  502: 'bad_gateway',
+  503: 'service_unavailable'
+};
+
+export const codeForStatus = (status: number): ErrorCode =>
+  statusCodes[status] || (status >= 500 ? 'internal_error' : 'bad_request');
+
+interface IErrorOptions {
+  // seconds the client should wait before retrying, sent as the Retry-After header
+  retryAfter?: number;
+  // machine readable code for the error e.g 'account_locked', the code of the status by default
+  code?: ErrorCode;
+  // the invalid fields of a rejected request
+  details?: IFieldError[];
+}
+
 class ErrorHandler extends Error {
   statusCode: number;
-  constructor(message: any, statusCode: number) {
+  retryAfter?: number;
+  code: ErrorCode;
+  details?: IFieldError[];
+  // the id of the request that failed, set when the error is sent
+  requestId?: string;
+  constructor(message: any, statusCode: number, options: IErrorOptions = {}) {
     super(message);
     this.statusCode = statusCode;
+    this.retryAfter = options.retryAfter;
+    this.code = options.code || codeForStatus(statusCode);
+    this.details = options.details;
 
     Error.captureStackTrace(this, this.constructor);
   }
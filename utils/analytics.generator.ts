@@ -1,4 +1,4 @@
-import { Document, Model } from 'mongoose';
+import { Document, FilterQuery, Model } from 'mongoose';
 
 interface MonthData {
   month: string;
@@ -6,7 +6,8 @@ interface MonthData {
 }
 
 export async function generateLast12MonthsData<T extends Document>(
-  model: Model<T>
+  model: Model<T>,
+  filter: FilterQuery<T> = {}
 ): Promise<{ last12Months: MonthData[] }> {
   const last12Months: MonthData[] = [];
   const currentDate = new Date();
@@ -35,6 +36,7 @@ export async function generateLast12MonthsData<T extends Document>(
 
     // Counting documents created within the specified date range
     const count = await model.countDocuments({
+      ...filter,
       createdAt: {
         $gte: startDate,
         $lt: endDate
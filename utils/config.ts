@@ -0,0 +1,223 @@
+import { IFieldError, v } from './schema';
+require('dotenv').config();
+
+const environments = ['development', 'test', 'production'] as const;
+
+type Environment = (typeof environments)[number];
+
+const environment = (process.env.NODE_ENV || 'development') as Environment;
+
+// the values of the variables that are not set, overridden by the environment
+const defaults: { [name: string]: string } = {
+  PORT: '8000',
+  ACCESS_TOKEN_EXPIRES: '5',
+  REFRESH_TOKEN_EXPIRES: '3',
+  LOGIN_LOCKOUT_THRESHOLD: '10',
+  LOGIN_LOCKOUT_MINUTES: '30',
+  SMTP_PORT: '587',
+  PAYMENT_CURRENCY: 'usd',
+  REFUND_WINDOW_DAYS: '30',
+  LOG_LEVEL: 'info',
+  STARTUP_RETRIES: '5',
+  STARTUP_RETRY_DELAY_SECONDS: '5',
+  SHUTDOWN_TIMEOUT_SECONDS: '10'
+};
+
+// production has no defaults for its urls, they must be set
+const environmentDefaults: { [env in Environment]: { [name: string]: string } } = {
+  development: {
+    ORIGIN: 'http://localhost:3000',
+    MONGO_URL: 'mongodb://127.0.0.1:27017/codeniversity',
+    REDIS_URL: 'redis://127.0.0.1:6379',
+    PAYMENT_PROVIDER: 'fake',
+    LOG_LEVEL: 'debug'
+  },
+  test: {
+    ORIGIN: 'http://localhost:3000',
+    MONGO_URL: 'mongodb://127.0.0.1:27017/codeniversity-test',
+    REDIS_URL: 'redis://127.0.0.1:6379',
+    PAYMENT_PROVIDER: 'fake',
+    LOG_LEVEL: 'warn'
+  },
+  production: {
+    PAYMENT_PROVIDER: 'stripe'
+  }
+};
+
+const secret = () => v.string({ min: 1 });
+const optional = () => v.string().optional();
+const count = (min = 0) => v.number({ min, integer: true });
+
+const envSchema = v.object({
+  NODE_ENV: v.oneOf(environments),
+  PORT: v.number({ min: 1, max: 65535, integer: true }),
+  // the proxies in front of the app e.g '1' for a single load balancer, see express' trust proxy
+  TRUST_PROXY: optional(),
+  ORIGIN: v.string(),
+  MONGO_URL: v.string(),
+  REDIS_URL: v.string(),
+  CLOUDINARY_NAME: optional(),
+  CLOUDINARY_API_KEY: optional(),
+  CLOUDINARY_SECRET_KEY: optional(),
+  ACTIVATION_SECRET: secret(),
+  RESET_PASSWORD_SECRET: secret(),
+  ACCESS_TOKEN: secret(),
+  REFRESH_TOKEN: secret(),
+  TWO_FACTOR_SECRET: secret(),
+  // in minutes
+  ACCESS_TOKEN_EXPIRES: count(1),
+  // in days
+  REFRESH_TOKEN_EXPIRES: count(1),
+  LOGIN_LOCKOUT_THRESHOLD: count(1),
+  LOGIN_LOCKOUT_MINUTES: count(1),
+  TWO_FACTOR_REQUIRED_ROLES: optional(),
+  GOOGLE_CLIENT_ID: optional(),
+  GITHUB_CLIENT_ID: optional(),
+  GITHUB_ISSUER: optional(),
+  GITHUB_JWKS_URI: optional(),
+  SOCIAL_AUTH_LOCAL_JWKS: optional(),
+  SMTP_HOST: optional(),
+  SMTP_PORT: v.number({ min: 1, max: 65535, integer: true }),
+  SMTP_SERVICE: optional(),
+  SMTP_MAIL: optional(),
+  SMTP_PASSWORD: optional(),
+  PAYMENT_PROVIDER: v.oneOf(['stripe', 'fake'] as const),
+  PAYMENT_CURRENCY: v.string({
+    pattern: /^[a-zA-Z]{3}$/,
+    message: 'PAYMENT_CURRENCY must be an ISO currency code'
+  }),
+  // signs the payment webhooks, whatever the provider
+  PAYMENT_WEBHOOK_SECRET: secret(),
+  STRIPE_SECRET_KEY: optional(),
+  REFUND_WINDOW_DAYS: count(),
+  LOG_LEVEL: v.oneOf(['debug', 'info', 'warn', 'error'] as const),
+  // the bearer token of the metrics scraper, the metrics are not served without it
+  METRICS_TOKEN: optional(),
+  STARTUP_RETRIES: count(1),
+  STARTUP_RETRY_DELAY_SECONDS: v.number({ min: 0 }),
+  SHUTDOWN_TIMEOUT_SECONDS: v.number({ min: 0 })
+});
+
+/**
+ * @description Read and check the environment variables, unset and empty variables taking their defaults
+ *
+ * @throws {Error} With every invalid or missing variable, so the app refuses to start
+ */
+const loadConfig = () => {
+  const variables: { [name: string]: string } = {
+    ...defaults,
+    ...environmentDefaults[environment],
+    NODE_ENV: environment
+  };
+
+  Object.keys(process.env).forEach((name) => {
+    const value = process.env[name];
+    if (value !== undefined && value.trim() !== '') variables[name] = value;
+  });
+
+  const errors: IFieldError[] = [];
+  const env = envSchema.parse(variables, 'env', errors, true);
+
+  // the variables that are not set are reported as missing rather than as of the wrong type
+  const messages = errors.map(({ field, message }) => {
+    const name = field.replace(/^env\./, '');
+    return variables[name] === undefined ? `${name} is required` : message;
+  });
+
+  if (env.PAYMENT_PROVIDER === 'stripe' && !env.STRIPE_SECRET_KEY)
+    messages.push('STRIPE_SECRET_KEY is required with the stripe payment provider');
+
+  // id tokens are only trusted from the configured issuer, with the keys it publishes
+  if (env.GITHUB_CLIENT_ID) {
+    if (!env.GITHUB_ISSUER) messages.push('GITHUB_ISSUER is required with GITHUB_CLIENT_ID');
+    if (!env.GITHUB_JWKS_URI) messages.push('GITHUB_JWKS_URI is required with GITHUB_CLIENT_ID');
+  }
+
+  // the fake provider takes no money
+  if (env.NODE_ENV === 'production' && env.PAYMENT_PROVIDER === 'fake')
+    messages.push('PAYMENT_PROVIDER cannot be fake in production');
+
+  if (messages.length)
+    throw new Error(
+      `Invalid configuration:\n${messages.map((message) => `  - ${message}`).join('\n')}`
+    );
+
+  return env;
+};
+
+const env = loadConfig();
+
+// a number of hops, true or false, or the addresses and subnets of the proxies
+const parseTrustProxy = (value?: string): boolean | number | string => {
+  if (!value || value === 'false') return false;
+  if (value === 'true') return true;
+  return /^\d+$/.test(value) ? Number(value) : value;
+};
+
+/**
+ * The configuration of the app, read from the environment once at startup.
+ * Modules read their settings from here rather than from process.env.
+ */
+export const config = {
+  env: env.NODE_ENV,
+  isProduction: env.NODE_ENV === 'production',
+  port: env.PORT,
+  // req.ip is the client's address only once the proxies forwarding it are trusted
+  trustProxy: parseTrustProxy(env.TRUST_PROXY),
+  // the url of the client, allowed by cors and used in the links sent by email
+  origin: env.ORIGIN,
+  mongoUrl: env.MONGO_URL,
+  redisUrl: env.REDIS_URL,
+  cloudinary: {
+    name: env.CLOUDINARY_NAME,
+    apiKey: env.CLOUDINARY_API_KEY,
+    secretKey: env.CLOUDINARY_SECRET_KEY
+  },
+  auth: {
+    activationSecret: env.ACTIVATION_SECRET,
+    resetPasswordSecret: env.RESET_PASSWORD_SECRET,
+    accessTokenSecret: env.ACCESS_TOKEN,
+    refreshTokenSecret: env.REFRESH_TOKEN,
+    twoFactorSecret: env.TWO_FACTOR_SECRET,
+    // lifetime of the access token and its cookie, in minutes
+    accessTokenExpires: env.ACCESS_TOKEN_EXPIRES,
+    // lifetime of the refresh token and its cookie, in days
+    refreshTokenExpires: env.REFRESH_TOKEN_EXPIRES,
+    lockoutThreshold: env.LOGIN_LOCKOUT_THRESHOLD,
+    lockoutMinutes: env.LOGIN_LOCKOUT_MINUTES,
+    // roles that must have two-factor authentication enabled to use their privileges e.g 'admin'
+    twoFactorRequiredRoles: (env.TWO_FACTOR_REQUIRED_ROLES || '')
+      .split(',')
+      .map((role) => role.trim())
+      .filter(Boolean)
+  },
+  socialAuth: {
+    googleClientId: env.GOOGLE_CLIENT_ID,
+    githubClientId: env.GITHUB_CLIENT_ID,
+    githubIssuer: env.GITHUB_ISSUER,
+    githubJwksUri: env.GITHUB_JWKS_URI,
+    localJwks: env.SOCIAL_AUTH_LOCAL_JWKS
+  },
+  smtp: {
+    host: env.SMTP_HOST,
+    port: env.SMTP_PORT,
+    service: env.SMTP_SERVICE,
+    mail: env.SMTP_MAIL,
+    password: env.SMTP_PASSWORD
+  },
+  payment: {
+    provider: env.PAYMENT_PROVIDER,
+    currency: env.PAYMENT_CURRENCY.toLowerCase(),
+    webhookSecret: env.PAYMENT_WEBHOOK_SECRET,
+    stripeSecretKey: env.STRIPE_SECRET_KEY || '',
+    refundWindowDays: env.REFUND_WINDOW_DAYS
+  },
+  logLevel: env.LOG_LEVEL,
+  metricsToken: env.METRICS_TOKEN,
+  lifecycle: {
+    startupRetries: env.STARTUP_RETRIES,
+    // in seconds
+    startupRetryDelay: env.STARTUP_RETRY_DELAY_SECONDS,
+    shutdownTimeout: env.SHUTDOWN_TIMEOUT_SECONDS
+  }
+};
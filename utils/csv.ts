@@ -0,0 +1,65 @@
+/**
+ * @description Parse CSV text (RFC 4180: quoted cells, escaped quotes, line breaks inside quotes)
+ * into records keyed by the header row
+ *
+ * @returns {Object[]} The records, with the line each one starts on
+ * @throws {Error} If a quoted cell is never closed
+ */
+export const parseCsv = (text: string) => {
+  const rows: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    // skip blank lines
+    if (cells.length > 1 || cells[0] !== '') rows.push({ line: rowLine, cells });
+    cells = [];
+    cell = '';
+    rowLine = line;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      line++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) throw new Error(`Unclosed quote in the row starting on line ${rowLine}`);
+  if (cell !== '' || cells.length) endRow();
+
+  const [header, ...records] = rows;
+  const keys = (header?.cells || []).map((key) => key.trim());
+
+  return records.map(({ line, cells }) => ({
+    line,
+    record: keys.reduce(
+      (record, key, i) => ({ ...record, [key]: (cells[i] ?? '').trim() }),
+      {} as { [key: string]: string }
+    )
+  }));
+};
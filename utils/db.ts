@@ -1,16 +1,16 @@
 import mongoose from 'mongoose';
+import { logger } from './logger';
+import { config } from './config';
 
-const dbUrl:string = process.env.MONGO_URL || '';
-
+// a single attempt, retried by the application lifecycle
 const connectDB = async () => {
-  try {
-    await mongoose.connect(dbUrl).then((data:any) => {
-      console.log(`Database connected with ${data.connection}`)
-    })
-  } catch (err:any) {
-    console.log(err.message)
-    setTimeout(connectDB, 5000)
-  }
+  const { connection } = await mongoose.connect(config.mongoUrl)
+
+  logger.info('Database connected', { host: connection.host })
+}
+
+export const disconnectDB = async () => {
+  await mongoose.disconnect()
 }
 
 export default connectDB;
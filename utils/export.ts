@@ -0,0 +1,84 @@
+import { once } from 'events';
+import { Response } from 'express';
+
+export type ExportFormat = 'csv' | 'ndjson';
+
+export interface IExportColumn {
+  key: string;
+  value: (row: any) => any;
+}
+
+const formatValue = (value: any) => {
+  if (value === undefined || value === null) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.join(';');
+  if (typeof value === 'object') return value.toString();
+
+  return value;
+};
+
+// quote cells that contain separators, and neutralize formulas so spreadsheets don't run them
+const csvCell = (value: any) => {
+  let cell = String(formatValue(value));
+
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(cell)) cell = `'${cell}`;
+
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+};
+
+const csvRow = (values: any[]) => `${values.map(csvCell).join(',')}\r\n`;
+
+/**
+ * @description Stream rows to the response as CSV or NDJSON as they are read from the cursor,
+ * waiting for the client to catch up so the rows are never all held in memory
+ *
+ * @param {Response} res - Express response object
+ * @param {AsyncIterable} cursor - The rows, e.g a mongoose query or aggregation cursor
+ * @param {IExportColumn[]} columns - The columns to export, in order
+ * @param {ExportFormat} format - csv or ndjson
+ * @param {string} filename - The name of the downloaded file, without extension
+ */
+export const streamExport = async (
+  res: Response,
+  cursor: AsyncIterable<any>,
+  columns: IExportColumn[],
+  format: ExportFormat,
+  filename: string
+) => {
+  res.status(200);
+  res.setHeader(
+    'Content-Type',
+    format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson'
+  );
+  res.setHeader(
+    'Content-Disposition',
+    `attachment; filename="${filename}.${format}"`
+  );
+
+  const write = async (chunk: string) => {
+    if (!res.write(chunk))
+      await Promise.race([once(res, 'drain'), once(res, 'close')]);
+  };
+
+  if (format === 'csv') await write(csvRow(columns.map((column) => column.key)));
+
+  for await (const row of cursor) {
+    // stop reading when the client went away
+    if (res.destroyed) break;
+
+    const values = columns.map((column) => column.value(row));
+
+    await write(
+      format === 'csv'
+        ? csvRow(values)
+        : `${JSON.stringify(
+            columns.reduce(
+              (record, column, i) => ({ ...record, [column.key]: values[i] ?? null }),
+              {}
+            )
+          )}\n`
+    );
+  }
+
+  res.end();
+};
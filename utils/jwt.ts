@@ -1,6 +1,10 @@
-import { Response } from 'express';
+import { Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
 import { IUser } from '../models/user.model';
 import { redis } from './redis';
+import { createSession } from './session';
+import { config } from './config';
 
 interface ITokenOptions {
   expires: Date;
@@ -10,20 +14,13 @@ interface ITokenOptions {
   secure?: boolean;
 }
 
-// parse env variables to integrate with fallback values
-const accessTokenExpires = parseInt(
-  process.env.ACCESS_TOKEN_EXPIRES || '5',
-  10
-);
-const refreshTokenExpires = parseInt(
-  process.env.REFRESH_TOKEN_EXPIRES || '3',
-  10
-);
+// the cookies expire with their tokens, in minutes and days
+const { accessTokenExpires, refreshTokenExpires } = config.auth;
 
 // Cookie options
 export const accessTokenOptions: ITokenOptions = {
-  expires: new Date(Date.now() + accessTokenExpires * 60 * 60 * 1000),
-  maxAge: accessTokenExpires * 60 * 60 * 1000,
+  expires: new Date(Date.now() + accessTokenExpires * 60 * 1000),
+  maxAge: accessTokenExpires * 60 * 1000,
   httpOnly: true,
   sameSite: 'lax'
 };
@@ -35,15 +32,26 @@ export const refreshTokenOptions: ITokenOptions = {
   sameSite: 'lax'
 };
 
-export const sendToken = (user: IUser, statusCode: number, res: Response) => {
-  const accessToken = user.signAccessToken();
-  const refreshToken = user.signRefreshToken();
+export const sendToken = async (
+  user: IUser,
+  statusCode: number,
+  req: Request,
+  res: Response
+) => {
+  // every login gets its own session, so devices can be logged out separately
+  const session = await createSession(user._id.toString(), req);
 
-  // Upload session to redis
-  redis.set(user._id, JSON.stringify(user) as any);
+  const accessToken = user.signAccessToken(session.id);
+  const refreshToken = user.signRefreshToken(
+    session.id,
+    session.refreshTokenId
+  );
+
+  // Upload user to redis
+  await redis.set(user._id.toString(), JSON.stringify(user));
 
   // if in production, then { secure: true }
-  if (process.env.NODE_ENV === 'production') {
+  if (config.isProduction) {
     accessTokenOptions.secure = true;
   }
 
@@ -57,3 +65,23 @@ export const sendToken = (user: IUser, statusCode: number, res: Response) => {
     accessToken
   });
 };
+
+/**
+ * @description Respond with a short-lived challenge token instead of logging in a user
+ * who has two-factor authentication enabled. The token is exchanged for a session at /2fa/login.
+ */
+export const sendTwoFactorChallenge = (user: IUser, res: Response) => {
+  const challengeToken = jwt.sign(
+    { id: user._id, jti: crypto.randomBytes(16).toString('hex') },
+    config.auth.twoFactorSecret,
+    {
+      expiresIn: '5m'
+    }
+  );
+
+  res.status(200).json({
+    success: true,
+    twoFactorRequired: true,
+    challengeToken
+  });
+};
@@ -0,0 +1,119 @@
+import { Server } from 'http';
+import cron from 'node-cron';
+
+import connectDB, { disconnectDB } from './db';
+import { connectRedis, disconnectRedis } from './redis';
+import CourseService from '../services/course.service';
+import { logger } from './logger';
+import { config } from './config';
+
+// how many times each data store is tried before giving up on starting, the seconds between
+// two attempts and the seconds in-flight requests are given to complete on shutdown
+const { startupRetries, startupRetryDelay, shutdownTimeout } = config.lifecycle;
+
+const sleep = (seconds: number) =>
+  new Promise((resolve) => setTimeout(resolve, seconds * 1000));
+
+/**
+ * @description Try to connect a data store a bounded number of times
+ *
+ * @throws {Error} The last error once every attempt has failed
+ */
+const connectWithRetries = async (name: string, connect: () => Promise<void>) => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await connect();
+    } catch (error: any) {
+      if (attempt >= startupRetries)
+        throw new Error(`Could not connect to ${name} after ${attempt} attempts: ${error.message}`);
+
+      logger.warn(`Could not connect to ${name}, retrying in ${startupRetryDelay}s`, {
+        attempt,
+        error
+      });
+      await sleep(startupRetryDelay);
+    }
+  }
+};
+
+/**
+ * @description Connect to MongoDB and redis, before the server accepts any traffic
+ *
+ * @throws {Error} If a data store can't be reached after the bounded retries
+ */
+export const connectDataStores = async () => {
+  await Promise.all([
+    connectWithRetries('MongoDB', connectDB),
+    connectWithRetries('Redis', connectRedis)
+  ]);
+};
+
+/**
+ * @description Schedule the background jobs, once the data stores are connected.
+ * A failed run is logged, node-cron would otherwise drop its error silently.
+ */
+export const scheduleJobs = () => {
+  // every minute, publish the courses whose scheduled release date has passed
+  cron.schedule('0 * * * * *', async () => {
+    try {
+      await CourseService.publishScheduledCourses();
+    } catch (error: any) {
+      logger.error('Failed to publish the scheduled courses', { error });
+    }
+  });
+};
+
+// cron tasks are scheduled by scheduleJobs and when the controllers are loaded, stop them all
+const stopScheduledTasks = () => cron.getTasks().forEach((task) => task.stop());
+
+/**
+ * @description Stop accepting connections and wait for the in-flight requests to complete,
+ * closing the connections still open once the timeout has passed
+ */
+const closeServer = (server: Server) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(() => {
+      logger.warn(`Requests still in flight after ${shutdownTimeout}s, closing their connections`);
+      server.closeAllConnections();
+    }, shutdownTimeout * 1000);
+
+    // keep-alive connections waiting for a request would hold the server open,
+    // close them as the requests in flight complete
+    const idle = setInterval(() => server.closeIdleConnections(), 250);
+
+    server.close(() => {
+      clearTimeout(timer);
+      clearInterval(idle);
+      resolve();
+    });
+  });
+
+/**
+ * @description Shut down gracefully on SIGTERM and SIGINT: stop the scheduled tasks, drain the
+ * server and close the data stores, then exit
+ */
+export const handleShutdown = (server: Server) => {
+  let shuttingDown = false;
+
+  const shutdown = async (signal: string) => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+
+    logger.info('Shutting down', { signal });
+
+    try {
+      stopScheduledTasks();
+      await closeServer(server);
+      await Promise.all([disconnectDB(), disconnectRedis()]);
+
+      logger.info('Shutdown complete');
+      process.exit(0);
+    } catch (error: any) {
+      logger.error('Shutdown failed', { error });
+      process.exit(1);
+    }
+  };
+
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+  process.on('SIGINT', () => shutdown('SIGINT'));
+};
@@ -0,0 +1,206 @@
+import { FilterQuery, Model, Types } from 'mongoose';
+import ErrorHandler from './ErrorHandler';
+
+// how the value of a filterable field is read from the query string
+export type FieldType = 'string' | 'number' | 'boolean' | 'date' | 'objectId';
+
+export interface IListOptions {
+  // the fields that can be filtered on and their types
+  filters?: { [field: string]: FieldType };
+  // the fields that can be sorted on
+  sorts?: string[];
+  // e.g '-createdAt' for newest first
+  defaultSort?: string;
+  defaultLimit?: number;
+  maxLimit?: number;
+}
+
+export interface IListQuery {
+  filter: { [field: string]: any };
+  sort: { [field: string]: 1 | -1 };
+  page: number;
+  limit: number;
+}
+
+// the range operators allowed on number and date fields e.g ?createdAt[gte]=2024-01-01
+const rangeOperators = ['gt', 'gte', 'lt', 'lte'];
+
+// query string keys that are not field filters
+const reservedKeys = ['page', 'limit', 'sort'];
+
+const parseInteger = (value: any, fallback: number) => {
+  if (value === undefined || value === '') return fallback;
+
+  const number = Number(value);
+
+  return Number.isInteger(number) ? number : NaN;
+};
+
+/**
+ * @description Read the page and limit from a query string
+ *
+ * @throws {ErrorHandler} If the page or limit is invalid (HTTP status code 422)
+ */
+export const parsePagination = (
+  query: { [key: string]: any },
+  defaultLimit = 20,
+  maxLimit = 100
+) => {
+  const page = parseInteger(query.page, 1);
+  const limit = parseInteger(query.limit, defaultLimit);
+
+  if (!(page >= 1))
+    throw new ErrorHandler('The page must be a positive integer', 422);
+
+  if (!(limit >= 1 && limit <= maxLimit))
+    throw new ErrorHandler(`The limit must be between 1 and ${maxLimit}`, 422);
+
+  return { page, limit };
+};
+
+/**
+ * @throws {ErrorHandler} If the value can't be read as the type of the field (HTTP status code 422)
+ */
+const castValue = (field: string, type: FieldType, value: any) => {
+  if (typeof value !== 'string')
+    throw new ErrorHandler(`Invalid value for ${field}`, 422);
+
+  switch (type) {
+    case 'number': {
+      const number = Number(value);
+      if (value === '' || Number.isNaN(number))
+        throw new ErrorHandler(`${field} must be a number`, 422);
+      return number;
+    }
+    case 'boolean':
+      if (value !== 'true' && value !== 'false')
+        throw new ErrorHandler(`${field} must be true or false`, 422);
+      return value === 'true';
+    case 'date': {
+      const date = new Date(value);
+      if (Number.isNaN(date.getTime()))
+        throw new ErrorHandler(`${field} must be a date`, 422);
+      return date;
+    }
+    case 'objectId':
+      if (!Types.ObjectId.isValid(value))
+        throw new ErrorHandler(`${field} must be an id`, 422);
+      return new Types.ObjectId(value);
+    default:
+      return value;
+  }
+};
+
+/**
+ * @description Parse the pagination, sort and field filters of a list endpoint's query string.
+ * Only the fields listed in the options can be filtered or sorted on, and their values are cast
+ * to the field type, so query operators can't be injected.
+ * - ?status=paid, or ?status=paid,failed for any of several values
+ * - ?amount[gte]=10&amount[lt]=50 and ?createdAt[gte]=2024-01-01 for number and date ranges
+ * - ?sort=-createdAt,name, a leading dash sorting in descending order
+ *
+ * @throws {ErrorHandler} If a parameter is unknown or invalid (HTTP status code 422)
+ */
+export const parseListQuery = (
+  query: { [key: string]: any },
+  options: IListOptions = {}
+): IListQuery => {
+  const filters = options.filters || {};
+  const sorts = options.sorts || ['createdAt'];
+  const { page, limit } = parsePagination(
+    query,
+    options.defaultLimit,
+    options.maxLimit
+  );
+
+  const filter: { [field: string]: any } = {};
+
+  Object.keys(query)
+    .filter((key) => !reservedKeys.includes(key))
+    .forEach((field) => {
+      const type = filters[field];
+      const value = query[field];
+
+      if (!type) throw new ErrorHandler(`Cannot filter on ${field}`, 422);
+
+      if (value && typeof value === 'object' && !Array.isArray(value)) {
+        if (type !== 'number' && type !== 'date')
+          throw new ErrorHandler(`Cannot filter ${field} by range`, 422);
+
+        filter[field] = Object.keys(value).reduce((range, operator) => {
+          if (!rangeOperators.includes(operator))
+            throw new ErrorHandler(`Unknown operator ${operator} on ${field}`, 422);
+
+          return { ...range, [`$${operator}`]: castValue(field, type, value[operator]) };
+        }, {});
+        return;
+      }
+
+      // repeated or comma separated values match any of the values
+      const values = (Array.isArray(value) ? value : [value])
+        .flatMap((item) => (typeof item === 'string' ? item.split(',') : [item]))
+        .map((item) => castValue(field, type, item));
+
+      filter[field] = values.length === 1 ? values[0] : { $in: values };
+    });
+
+  const sortQuery =
+    typeof query.sort === 'string' && query.sort
+      ? query.sort
+      : options.defaultSort || '-createdAt';
+
+  const sort: { [field: string]: 1 | -1 } = {};
+
+  sortQuery.split(',').forEach((item) => {
+    const field = item.replace(/^-/, '');
+
+    if (!sorts.includes(field))
+      throw new ErrorHandler(`Cannot sort on ${field}`, 422);
+
+    sort[field] = item.startsWith('-') ? -1 : 1;
+  });
+
+  return { filter, sort, page, limit };
+};
+
+export const buildPagination = (page: number, limit: number, total: number) => ({
+  page,
+  limit,
+  total,
+  pages: Math.ceil(total / limit),
+  hasNextPage: page * limit < total,
+  hasPrevPage: page > 1
+});
+
+/**
+ * @description Find a page of documents matching a parsed list query and a base filter,
+ * e.g the scope of what the user can see
+ *
+ * @returns The documents and the pagination metadata
+ */
+export const paginate = async <T>(
+  model: Model<T>,
+  listQuery: IListQuery,
+  baseFilter: FilterQuery<T> = {}
+) => {
+  const { page, limit, sort } = listQuery;
+  const filter = (
+    Object.keys(baseFilter).length
+      ? { $and: [listQuery.filter, baseFilter] }
+      : listQuery.filter
+  ) as FilterQuery<T>;
+
+  const [items, total] = await Promise.all([
+    model
+      .find(filter)
+      .sort({ ...sort, _id: sort._id || -1 })
+      .skip((page - 1) * limit)
+      .limit(limit),
+    model.countDocuments(filter)
+  ]);
+
+  return {
+    items,
+    pagination: buildPagination(page, limit, total)
+  };
+};
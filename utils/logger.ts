@@ -0,0 +1,41 @@
+import { config } from './config';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const levels: { [level in LogLevel]: number } = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40
+};
+
+// the least severe level written
+const minLevel = levels[config.logLevel];
+
+// errors don't serialize to JSON by themselves
+const serialize = (key: string, value: any) =>
+  value instanceof Error
+    ? { name: value.name, message: value.message, stack: value.stack }
+    : value;
+
+const write = (level: LogLevel, message: string, fields: { [key: string]: any } = {}) => {
+  if (levels[level] < minLevel) return;
+
+  const line = JSON.stringify(
+    { time: new Date().toISOString(), level, message, ...fields },
+    serialize
+  );
+
+  (levels[level] >= levels.warn ? process.stderr : process.stdout).write(`${line}\n`);
+};
+
+/**
+ * A structured logger writing one JSON object per line, e.g
+ * logger.info('Request completed', { requestId, status: 200 })
+ */
+export const logger = {
+  debug: (message: string, fields?: { [key: string]: any }) => write('debug', message, fields),
+  info: (message: string, fields?: { [key: string]: any }) => write('info', message, fields),
+  warn: (message: string, fields?: { [key: string]: any }) => write('warn', message, fields),
+  error: (message: string, fields?: { [key: string]: any }) => write('error', message, fields)
+};
@@ -0,0 +1,173 @@
+import { Request } from 'express';
+import jwt from 'jsonwebtoken';
+import { IUser } from '../models/user.model';
+import ErrorHandler, { ErrorCode } from './ErrorHandler';
+import sendMail from './sendMail';
+import { logger } from './logger';
+import { redis } from './redis';
+import { config } from './config';
+
+// failed attempts before every further attempt is delayed, per email and per ip
+const emailBackoffThreshold = 3;
+const ipBackoffThreshold = 20;
+// the longest delay between attempts, in seconds
+const maxBackoff = 15 * 60;
+// how long failed attempts are remembered, in seconds
+const failureWindow = 60 * 60;
+
+// failed attempts on an email before its account is locked
+export const lockoutThreshold = config.auth.lockoutThreshold;
+// how long an account stays locked, in minutes
+export const lockoutMinutes = config.auth.lockoutMinutes;
+
+type Scope = 'email' | 'ip' | 'activation';
+
+const failuresKey = (scope: Scope, id: string) =>
+  `login-failures:${scope}:${id.toLowerCase()}`;
+const blockKey = (scope: Scope, id: string) =>
+  `login-blocked:${scope}:${id.toLowerCase()}`;
+
+/**
+ * @description Get how many seconds a client must wait before its next attempt, if any
+ *
+ * @returns {number} The seconds to wait, 0 if the attempt is allowed
+ */
+export const getRetryAfter = async (
+  ...targets: [Scope, string | undefined][]
+) => {
+  const ttls = await Promise.all(
+    targets
+      .filter(([, id]) => !!id)
+      .map(([scope, id]) => redis.ttl(blockKey(scope, id as string)))
+  );
+
+  return Math.max(0, ...ttls);
+};
+
+/**
+ * @description Count a failed attempt and delay the next attempt exponentially once
+ * the threshold is reached: 1s, 2s, 4s... up to 15 minutes
+ *
+ * @returns {number} The number of failed attempts in the window
+ */
+export const recordFailure = async (
+  scope: Scope,
+  id: string,
+  threshold = scope === 'ip' ? ipBackoffThreshold : emailBackoffThreshold
+) => {
+  const key = failuresKey(scope, id);
+  const failures = await redis.incr(key);
+
+  if (failures === 1) await redis.expire(key, failureWindow);
+
+  if (failures >= threshold) {
+    const backoff = Math.min(2 ** (failures - threshold), maxBackoff);
+    await redis.set(blockKey(scope, id), failures, 'EX', backoff);
+  }
+
+  return failures;
+};
+
+export const clearFailures = async (scope: Scope, id: string) => {
+  await redis.del(failuresKey(scope, id), blockKey(scope, id));
+};
+
+/**
+ * @description Lock an account after too many failed logins and email the user a link to unlock it
+ *
+ * @param {IUser} user - The user to lock out
+ */
+const lockAccount = async (user: IUser) => {
+  user.lockedUntil = new Date(Date.now() + lockoutMinutes * 60 * 1000);
+  user.lockReason = `${lockoutThreshold} failed login attempts`;
+  await user.save();
+
+  await clearFailures('email', user.email);
+
+  const unlockToken = jwt.sign(
+    { id: user._id, purpose: 'unlock' },
+    config.auth.activationSecret,
+    {
+      expiresIn: `${lockoutMinutes}m`
+    }
+  );
+
+  try {
+    await sendMail({
+      email: user.email,
+      subject: 'Your account has been locked',
+      template: 'account-locked-mail.ejs',
+      data: {
+        user: { name: user.name },
+        lockoutMinutes,
+        unlockUrl: `${config.origin}/unlock-account?token=${unlockToken}`
+      }
+    });
+  } catch (error: any) {
+    // the account stays locked until it expires if the email can't be sent
+    logger.error('Error sending account locked email', { userId: user._id?.toString(), error });
+  }
+};
+
+
+interface ICredentialFailure {
+  message: string;
+  code: ErrorCode;
+}
+
+/**
+ * @description Run a check of a user's credentials, a password or a second factor, under the login
+ * throttling and lockout: refused while the email, the ip or the account is blocked, a failure counts
+ * towards the backoff and the lockout of the account, and a success clears the failures of the email.
+ * Every credential check goes through here, so no path allows unlimited guesses.
+ *
+ * @param {string} email - The email the credentials are for, even if no user has it
+ * @param {IUser | null} user - The user with that email, to lock
+ * @param {Function} check - Resolves whether the credentials of the user are correct
+ * @param {Object} [failure] - The error when they are not, invalid email or password by default
+ *
+ * @returns {IUser} The user, once its credentials are checked
+ * @throws {ErrorHandler} If attempts are throttled or the account is locked (HTTP status code 429)
+ * @throws {ErrorHandler} If the credentials are wrong (HTTP status code 401)
+ */
+export const checkCredentials = async (
+  req: Request,
+  email: string,
+  user: IUser | null,
+  check: (user: IUser) => Promise<boolean>,
+  failure: ICredentialFailure = {
+    message: 'Invalid email or password',
+    code: 'invalid_credentials'
+  }
+) => {
+  const retryAfter = await getRetryAfter(['email', email], ['ip', req.ip]);
+
+  if (retryAfter)
+    throw new ErrorHandler(
+      `Too many failed login attempts. Please try again in ${retryAfter} seconds`,
+      429,
+      { retryAfter, code: 'too_many_attempts' }
+    );
+
+  if (user?.lockedUntil && user.lockedUntil.getTime() > Date.now())
+    throw new ErrorHandler(
+      'Your account is locked after too many failed login attempts. Check your email to unlock it',
+      429,
+      {
+        retryAfter: Math.ceil((user.lockedUntil.getTime() - Date.now()) / 1000),
+        code: 'account_locked'
+      }
+    );
+
+  if (user && (await check(user))) {
+    await clearFailures('email', email);
+    return user;
+  }
+
+  const failures = await recordFailure('email', email);
+  if (req.ip) await recordFailure('ip', req.ip);
+
+  if (user && failures >= lockoutThreshold) await lockAccount(user);
+
+  throw new ErrorHandler(failure.message, 401, { code: failure.code });
+};
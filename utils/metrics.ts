@@ -0,0 +1,123 @@
+type Labels = { [name: string]: string | number };
+
+// the upper bounds in seconds of the request duration buckets
+const durationBuckets = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+const escapeLabel = (value: string | number) =>
+  String(value).replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+const formatLabels = (labels: Labels) => {
+  const names = Object.keys(labels);
+
+  return names.length
+    ? `{${names.map((name) => `${name}="${escapeLabel(labels[name])}"`).join(',')}}`
+    : '';
+};
+
+class Counter {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels = {}, value = 1) {
+    const key = formatLabels(labels);
+    const entry = this.values.get(key) || { labels, value: 0 };
+
+    entry.value += value;
+    this.values.set(key, entry);
+  }
+
+  // the total of the series whose labels include the given labels
+  get(labels: Labels = {}) {
+    return [...this.values.values()]
+      .filter((entry) => Object.keys(labels).every((name) => entry.labels[name] === labels[name]))
+      .reduce((total, entry) => total + entry.value, 0);
+  }
+
+  render() {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...[...this.values.entries()].map(([key, { value }]) => `${this.name}${key} ${value}`)
+    ];
+  }
+}
+
+class Histogram {
+  private values = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(readonly name: string, readonly help: string, readonly buckets: number[]) {}
+
+  observe(labels: Labels, value: number) {
+    const key = formatLabels(labels);
+    const entry = this.values.get(key) || {
+      labels,
+      counts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0
+    };
+
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) entry.counts[i] += 1;
+    });
+    entry.sum += value;
+    entry.count += 1;
+    this.values.set(key, entry);
+  }
+
+  render() {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} histogram`,
+      ...[...this.values.values()].flatMap(({ labels, counts, sum, count }) => [
+        ...this.buckets.map(
+          (bound, i) => `${this.name}_bucket${formatLabels({ ...labels, le: bound })} ${counts[i]}`
+        ),
+        `${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+        `${this.name}_sum${formatLabels(labels)} ${sum}`,
+        `${this.name}_count${formatLabels(labels)} ${count}`
+      ])
+    ];
+  }
+}
+
+export const httpRequests = new Counter('http_requests_total', 'HTTP requests by method, route and status');
+
+export const httpRequestDuration = new Histogram(
+  'http_request_duration_seconds',
+  'HTTP request latencies by method and route',
+  durationBuckets
+);
+
+// result is hit or miss
+export const courseCacheReads = new Counter(
+  'course_cache_reads_total',
+  'Reads of courses from the redis cache by result'
+);
+
+// result is success or failure
+export const emailsSent = new Counter('emails_sent_total', 'Emails sent by template and result');
+
+/**
+ * @description Render every metric in the Prometheus text exposition format
+ */
+export const renderMetrics = () => {
+  const hits = courseCacheReads.get({ result: 'hit' });
+  const reads = courseCacheReads.get();
+
+  return `${[
+    ...httpRequests.render(),
+    ...httpRequestDuration.render(),
+    ...courseCacheReads.render(),
+    '# HELP course_cache_hit_ratio Share of course reads served from the redis cache',
+    '# TYPE course_cache_hit_ratio gauge',
+    `course_cache_hit_ratio ${reads ? hits / reads : 0}`,
+    ...emailsSent.render(),
+    '# HELP process_uptime_seconds Seconds since the process started',
+    '# TYPE process_uptime_seconds gauge',
+    `process_uptime_seconds ${process.uptime()}`,
+    '# HELP process_resident_memory_bytes Resident memory size in bytes',
+    '# TYPE process_resident_memory_bytes gauge',
+    `process_resident_memory_bytes ${process.memoryUsage().rss}`
+  ].join('\n')}\n`;
+};
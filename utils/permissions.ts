@@ -0,0 +1,30 @@
+// every permission a role can be granted, as '<resource>:<action>'
+export const permissions = [
+  'course:write', // create courses and manage the courses they own
+  'course:manage', // manage every course and choose its owners
+  'course:publish', // publish, schedule and archive courses
+  'order:read',
+  'order:refund',
+  'coupon:write',
+  'category:write',
+  'layout:write',
+  'notification:read', // notifications of owned courses, or all with course:manage
+  'analytics:read', // analytics of owned courses, or all with course:manage
+  'user:read',
+  'user:write',
+  'user:delete',
+  'role:write',
+  'audit:read' // the audit log of admin changes
+] as const;
+
+export type Permission = (typeof permissions)[number];
+
+// the roles created on startup, which can't be deleted
+export const defaultRoles: { name: string; permissions: Permission[] }[] = [
+  { name: 'user', permissions: [] },
+  {
+    name: 'instructor',
+    permissions: ['course:write', 'notification:read', 'analytics:read']
+  },
+  { name: 'admin', permissions: [...permissions] }
+];
@@ -1,12 +1,31 @@
 import { Redis } from "ioredis";
-require('dotenv').config();
+import { logger } from "./logger";
+import { config } from "./config";
 
-const redisClient = () => {
-  if (process.env.REDIS_URL) {
-    console.log('Redis connected')
-    return process.env.REDIS_URL
-  }
-  throw new Error('Redis connection failed');
-}
+export const redis = new Redis(config.redisUrl);
 
-export const redis = new Redis(redisClient());
+redis.on('ready', () => logger.info('Redis connected'));
+redis.on('error', (error) => logger.warn('Redis connection error', { error }));
+
+/**
+ * @description Check that redis answers a PING. ioredis queues commands while disconnected,
+ * so a ping to a down redis would otherwise not settle until it is back.
+ *
+ * @param {number} timeout - How long to wait for the answer, in milliseconds
+ */
+export const pingRedis = (timeout = 1000) =>
+  Promise.race([
+    redis.ping().then((reply) => reply === 'PONG'),
+    new Promise<boolean>((resolve) => setTimeout(() => resolve(false), timeout))
+  ]).catch(() => false);
+
+// a single attempt, retried by the application lifecycle
+export const connectRedis = async () => {
+  if (!(await pingRedis(5000))) throw new Error('Redis did not answer a PING');
+};
+
+export const disconnectRedis = async () => {
+  // quit lets the pending commands complete, a redis that is down would keep it waiting
+  if (redis.status === 'ready') await redis.quit();
+  else redis.disconnect();
+};
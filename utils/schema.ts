@@ -0,0 +1,256 @@
+import { Types } from 'mongoose';
+
+export interface IFieldError {
+  // where the invalid value is e.g 'body.sections[1].title'
+  field: string;
+  message: string;
+}
+
+interface IParseContext {
+  errors: IFieldError[];
+  // query strings and route params only carry strings, read numbers and booleans from them
+  coerce: boolean;
+}
+
+type Check<T> = (value: any, path: string, context: IParseContext) => T;
+
+/**
+ * A runtime check of a value that also gives its TypeScript type, see Infer
+ */
+export class Schema<T> {
+  constructor(readonly check: Check<T>) {}
+
+  optional(): Schema<T | undefined> {
+    return new Schema((value, path, context) =>
+      value === undefined ? undefined : this.check(value, path, context)
+    );
+  }
+
+  nullable(): Schema<T | null> {
+    return new Schema((value, path, context) =>
+      value === null ? null : this.check(value, path, context)
+    );
+  }
+
+  /**
+   * @description Check a value, reporting each invalid field to the errors
+   *
+   * @returns The value with its numbers and booleans read and unknown object keys removed
+   */
+  parse(value: any, path: string, errors: IFieldError[], coerce = false) {
+    return this.check(value, path, { errors, coerce });
+  }
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = { [key: string]: Schema<any> };
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: undefined extends Infer<S[K]> ? K : never;
+}[keyof S];
+
+type InferShape<S extends Shape> = {
+  [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]>;
+} & {
+  [K in OptionalKeys<S>]?: Infer<S[K]>;
+};
+
+// reports an error and gives a placeholder value, the parsed value is not used once there are errors
+const fail = (context: IParseContext, path: string, message: string): any => {
+  context.errors.push({ field: path, message });
+  return undefined;
+};
+
+const label = (path: string) => path.split('.').pop() || path;
+
+const emailPattern = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+interface IStringOptions {
+  // 1 by default, empty strings are only accepted with min: 0
+  min?: number;
+  max?: number;
+  pattern?: RegExp;
+  // the message when the pattern doesn't match
+  message?: string;
+  // true by default, passwords keep their spaces
+  trim?: boolean;
+}
+
+interface INumberOptions {
+  min?: number;
+  max?: number;
+  integer?: boolean;
+}
+
+interface IObjectOptions {
+  // keep the keys that are not in the shape, e.g for documents edited in full by the client
+  passthrough?: boolean;
+}
+
+const string = (options: IStringOptions = {}) =>
+  new Schema<string>((value, path, context) => {
+    const { min = 1, max, pattern, message, trim = true } = options;
+
+    if (typeof value !== 'string') return fail(context, path, `${label(path)} must be a string`);
+
+    const trimmed = trim ? value.trim() : value;
+
+    if (trimmed.length < min)
+      return fail(
+        context,
+        path,
+        min === 1 ? `${label(path)} is required` : `${label(path)} must be at least ${min} characters`
+      );
+
+    if (max !== undefined && trimmed.length > max)
+      return fail(context, path, `${label(path)} must be at most ${max} characters`);
+
+    if (pattern && !pattern.test(trimmed))
+      return fail(context, path, message || `${label(path)} is invalid`);
+
+    return trimmed;
+  });
+
+const email = () =>
+  string({ pattern: emailPattern, message: 'Please enter a valid email' });
+
+const number = (options: INumberOptions = {}) =>
+  new Schema<number>((value, path, context) => {
+    const { min, max, integer } = options;
+    const number =
+      context.coerce && typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+
+    if (typeof number !== 'number' || !Number.isFinite(number))
+      return fail(context, path, `${label(path)} must be a number`);
+
+    if (integer && !Number.isInteger(number))
+      return fail(context, path, `${label(path)} must be an integer`);
+
+    if (min !== undefined && number < min)
+      return fail(context, path, `${label(path)} must be at least ${min}`);
+
+    if (max !== undefined && number > max)
+      return fail(context, path, `${label(path)} must be at most ${max}`);
+
+    return number;
+  });
+
+const boolean = () =>
+  new Schema<boolean>((value, path, context) => {
+    if (context.coerce && (value === 'true' || value === 'false')) return value === 'true';
+
+    if (typeof value !== 'boolean')
+      return fail(context, path, `${label(path)} must be true or false`);
+
+    return value;
+  });
+
+const date = () =>
+  new Schema<Date>((value, path, context) => {
+    const date = typeof value === 'string' || typeof value === 'number' ? new Date(value) : value;
+
+    if (!(date instanceof Date) || Number.isNaN(date.getTime()))
+      return fail(context, path, `${label(path)} must be a date`);
+
+    return date;
+  });
+
+const objectId = () =>
+  new Schema<string>((value, path, context) => {
+    if (typeof value !== 'string' || !Types.ObjectId.isValid(value))
+      return fail(context, path, `${label(path)} must be an id`);
+
+    return value;
+  });
+
+const oneOf = <T extends string>(values: readonly T[]) =>
+  new Schema<T>((value, path, context) => {
+    if (!values.includes(value))
+      return fail(context, path, `${label(path)} must be one of ${values.join(', ')}`);
+
+    return value;
+  });
+
+// anything, e.g an image upload that is a data url or an already uploaded image
+const any = () => new Schema<any>((value) => value);
+
+const array = <T>(item: Schema<T>, options: { min?: number; max?: number } = {}) =>
+  new Schema<T[]>((value, path, context) => {
+    const { min, max } = options;
+
+    if (!Array.isArray(value)) return fail(context, path, `${label(path)} must be a list`);
+
+    if (min !== undefined && value.length < min)
+      return fail(context, path, `${label(path)} must have at least ${min} item(s)`);
+
+    if (max !== undefined && value.length > max)
+      return fail(context, path, `${label(path)} must have at most ${max} item(s)`);
+
+    return value.map((element, i) => item.check(element, `${path}[${i}]`, context));
+  });
+
+const object = <S extends Shape>(shape: S, options: IObjectOptions = {}) =>
+  new Schema<InferShape<S>>((value, path, context) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value))
+      return fail(context, path, `${label(path)} must be an object`);
+
+    const parsed: { [key: string]: any } = options.passthrough ? { ...value } : {};
+
+    Object.keys(shape).forEach((key) => {
+      const field = shape[key].check(value[key], `${path}.${key}`, context);
+
+      // leave out the optional fields that were not given
+      if (field !== undefined) parsed[key] = field;
+      else delete parsed[key];
+    });
+
+    return parsed as InferShape<S>;
+  });
+
+/**
+ * @description An object whose fields depend on the value of one of them,
+ * e.g { type: 'banner', image, title } or { type: 'faq', data }
+ */
+const variant = <K extends string, V extends { [value: string]: Schema<any> }>(
+  key: K,
+  variants: V
+) =>
+  new Schema<{ [T in keyof V]: Infer<V[T]> & { [P in K]: T } }[keyof V]>(
+    (value, path, context) => {
+      const values = Object.keys(variants);
+      const type = value?.[key];
+
+      if (!values.includes(type))
+        return fail(context, `${path}.${key}`, `${key} must be one of ${values.join(', ')}`);
+
+      return { ...variants[type].check(value, path, context), [key]: type };
+    }
+  );
+
+/**
+ * The schema builders, e.g
+ * v.object({ rating: v.number({ min: 1, max: 5, integer: true }), review: v.string().optional() })
+ */
+export const v = {
+  string,
+  email,
+  number,
+  boolean,
+  date,
+  objectId,
+  oneOf,
+  any,
+  array,
+  object,
+  variant,
+  // every field of an object schema made optional, e.g for partial updates
+  partial: <S extends Shape>(shape: S, options?: IObjectOptions) =>
+    object(
+      Object.keys(shape).reduce(
+        (optional, key) => ({ ...optional, [key]: shape[key].optional() }),
+        {} as { [K in keyof S]: Schema<Infer<S[K]> | undefined> }
+      ),
+      options
+    )
+};
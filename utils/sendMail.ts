@@ -1,6 +1,8 @@
 import nodemailer, { Transporter } from 'nodemailer';
 import ejs from 'ejs';
 import path from 'path'
+import { emailsSent } from './metrics';
+import { config } from './config';
 
 interface EmailOptions {
   email: string;
@@ -11,12 +13,12 @@ interface EmailOptions {
 
 const sendMail = async (options: EmailOptions):Promise<void> => {
   const transporter: Transporter = nodemailer.createTransport({
-    host: process.env.SMTP_HOST,
-    port: parseInt(process.env.SMTP_PORT || '587'),
-    service: process.env.SMTP_SERVICE,
+    host: config.smtp.host,
+    port: config.smtp.port,
+    service: config.smtp.service,
     auth: {
-      user: process.env.SMTP_MAIL,
-      pass: process.env.SMTP_PASSWORD
+      user: config.smtp.mail,
+      pass: config.smtp.password
     }
   })
 
@@ -25,17 +27,23 @@ const sendMail = async (options: EmailOptions):Promise<void> => {
   // get the path to the email template
   const templatePath = path.join(__dirname, '../mails', template)
 
-  // Render the email template with ejs
-  const html:string = await ejs.renderFile(templatePath, data)
+  try {
+    // Render the email template with ejs
+    const html:string = await ejs.renderFile(templatePath, data)
 
-  const mailOptions = {
-    from: process.env.SMTP_MAIL,
-    to: email,
-    subject,
-    html
-  }
+    const mailOptions = {
+      from: config.smtp.mail,
+      to: email,
+      subject,
+      html
+    }
 
-  await transporter.sendMail(mailOptions)
+    await transporter.sendMail(mailOptions)
+    emailsSent.inc({ template, result: 'success' })
+  } catch (error) {
+    emailsSent.inc({ template, result: 'failure' })
+    throw error
+  }
 }
 
 export default sendMail;
@@ -0,0 +1,193 @@
+import crypto from 'crypto';
+import { Request } from 'express';
+import { redis } from './redis';
+
+export interface ISession {
+  id: string;
+  userId: string;
+  // id of the only refresh token of the session that can still be used
+  refreshTokenId: string;
+  device: string;
+  ip: string;
+  userAgent: string;
+  createdAt: string;
+  lastSeenAt: string;
+}
+
+// sessions live as long as their refresh token: 3 days in seconds
+const sessionTtl = 259200;
+// how often the last seen time of a session is written, in milliseconds
+const lastSeenInterval = 60 * 1000;
+
+const sessionKey = (id: string) => `session:${id}`;
+const userSessionsKey = (userId: string) => `sessions:${userId}`;
+
+export const generateTokenId = () => crypto.randomBytes(16).toString('hex');
+
+// describe the device from its user agent e.g 'Chrome on Windows'
+const describeDevice = (userAgent: string) => {
+  const browsers: [RegExp, string][] = [
+    [/Edg\//, 'Edge'],
+    [/OPR\//, 'Opera'],
+    [/Chrome\//, 'Chrome'],
+    [/Firefox\//, 'Firefox'],
+    [/Safari\//, 'Safari']
+  ];
+  const systems: [RegExp, string][] = [
+    [/Android/, 'Android'],
+    [/iPhone|iPad/, 'iOS'],
+    [/Windows/, 'Windows'],
+    [/Mac OS X/, 'macOS'],
+    [/Linux/, 'Linux']
+  ];
+
+  const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = systems.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (!browser && !system) return 'Unknown device';
+
+  return [browser, system].filter(Boolean).join(' on ');
+};
+
+const saveSession = async (session: ISession) => {
+  await redis.set(
+    sessionKey(session.id),
+    JSON.stringify(session),
+    'EX',
+    sessionTtl
+  );
+};
+
+/**
+ * @description Create a session for a user logging in from the device that sent the request
+ */
+export const createSession = async (userId: string, req: Request) => {
+  const userAgent = req.get('user-agent') || '';
+  const now = new Date().toISOString();
+
+  const session: ISession = {
+    id: generateTokenId(),
+    userId,
+    refreshTokenId: generateTokenId(),
+    device: describeDevice(userAgent),
+    ip: req.ip || '',
+    userAgent,
+    createdAt: now,
+    lastSeenAt: now
+  };
+
+  await saveSession(session);
+  await redis.sadd(userSessionsKey(userId), session.id);
+  await redis.expire(userSessionsKey(userId), sessionTtl);
+
+  return session;
+};
+
+export const getSession = async (id: string): Promise<ISession | null> => {
+  const session = await redis.get(sessionKey(id));
+
+  return session ? JSON.parse(session) : null;
+};
+
+// update fields of a stored session, only if it still exists and, when ARGV[3] is given, its
+// refresh token is still ARGV[3]. ARGV[1] is the JSON of the fields, ARGV[2] the ttl or 'KEEPTTL'.
+// Done in redis so a concurrent rotation or revocation of the session is never overwritten.
+const updateSessionScript = `
+local stored = redis.call('GET', KEYS[1])
+if not stored then return nil end
+local session = cjson.decode(stored)
+if ARGV[3] and session.refreshTokenId ~= ARGV[3] then return nil end
+for field, value in pairs(cjson.decode(ARGV[1])) do session[field] = value end
+local updated = cjson.encode(session)
+if ARGV[2] == 'KEEPTTL' then
+  redis.call('SET', KEYS[1], updated, 'KEEPTTL')
+else
+  redis.call('SET', KEYS[1], updated, 'EX', ARGV[2])
+end
+return updated
+`;
+
+const updateSession = async (
+  id: string,
+  fields: Partial<ISession>,
+  ttl: number | 'KEEPTTL',
+  refreshTokenId?: string
+): Promise<ISession | null> => {
+  const updated = (await redis.eval(
+    updateSessionScript,
+    1,
+    sessionKey(id),
+    JSON.stringify(fields),
+    ttl,
+    ...(refreshTokenId ? [refreshTokenId] : [])
+  )) as string | null;
+
+  return updated ? JSON.parse(updated) : null;
+};
+
+/**
+ * @description Update the last seen time and ip of a session, at most once a minute
+ */
+export const touchSession = async (session: ISession, req: Request) => {
+  if (Date.now() - new Date(session.lastSeenAt).getTime() < lastSeenInterval)
+    return;
+
+  await updateSession(
+    session.id,
+    { lastSeenAt: new Date().toISOString(), ip: req.ip || session.ip },
+    'KEEPTTL'
+  );
+};
+
+/**
+ * @description Replace the refresh token of a session with a new one and extend the session
+ *
+ * @returns The rotated session, or null if it was revoked, expired or rotated in the meantime
+ */
+export const rotateSession = async (session: ISession, req: Request) => {
+  const rotated = await updateSession(
+    session.id,
+    {
+      refreshTokenId: generateTokenId(),
+      lastSeenAt: new Date().toISOString(),
+      ip: req.ip || session.ip
+    },
+    sessionTtl,
+    session.refreshTokenId
+  );
+
+  if (rotated) await redis.expire(userSessionsKey(session.userId), sessionTtl);
+
+  return rotated;
+};
+
+export const revokeSession = async (session: ISession) => {
+  await redis.del(sessionKey(session.id));
+  await redis.srem(userSessionsKey(session.userId), session.id);
+};
+
+export const revokeAllSessions = async (userId: string) => {
+  const ids = await redis.smembers(userSessionsKey(userId));
+
+  if (ids.length) await redis.del(...ids.map(sessionKey));
+  await redis.del(userSessionsKey(userId));
+};
+
+/**
+ * @description List the active sessions of a user, newest first, cleaning up expired ones
+ */
+export const listSessions = async (userId: string) => {
+  const ids = await redis.smembers(userSessionsKey(userId));
+
+  if (!ids.length) return [];
+
+  const sessions = await redis.mget(...ids.map(sessionKey));
+
+  const expired = ids.filter((id, i) => !sessions[i]);
+  if (expired.length) await redis.srem(userSessionsKey(userId), ...expired);
+
+  return sessions
+    .filter((session): session is string => !!session)
+    .map((session) => JSON.parse(session) as ISession)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
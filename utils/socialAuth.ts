@@ -0,0 +1,176 @@
+import crypto, { JsonWebKey, KeyObject } from 'crypto';
+import jwt, { JwtHeader, JwtPayload } from 'jsonwebtoken';
+import ErrorHandler from './ErrorHandler';
+import { config } from './config';
+
+interface IJwk extends JsonWebKey {
+  kid: string;
+  kty: string;
+}
+
+interface ISocialProvider {
+  issuer: string | string[];
+  audience: string;
+  jwksUri?: string;
+  // a key set given inline instead of fetched from jwksUri, used for local testing
+  keys?: IJwk[];
+}
+
+export interface ISocialProfile {
+  provider: string;
+  subject: string;
+  email: string;
+  name: string;
+  avatar?: string;
+}
+
+// how long a fetched key set is trusted when the provider doesn't send a max-age, in milliseconds
+const defaultKeySetTtl = 60 * 60 * 1000;
+
+// the least time between two fetches of a key set for a key it doesn't have, in milliseconds,
+// so tokens with made up key ids can't make us hammer the provider
+const minKeySetRefetchInterval = 5 * 60 * 1000;
+
+const parseLocalKeys = () => {
+  try {
+    return JSON.parse(config.socialAuth.localJwks || '{}').keys;
+  } catch (error) {
+    return undefined;
+  }
+};
+
+const providers: { [name: string]: ISocialProvider | undefined } = {
+  google: config.socialAuth.googleClientId
+    ? {
+        issuer: ['accounts.google.com', 'https://accounts.google.com'],
+        audience: config.socialAuth.googleClientId,
+        jwksUri: 'https://www.googleapis.com/oauth2/v3/certs'
+      }
+    : undefined,
+  // github only issues id tokens through an OpenID Connect broker, so it is configured entirely from env
+  github:
+    config.socialAuth.githubClientId &&
+    config.socialAuth.githubIssuer &&
+    config.socialAuth.githubJwksUri
+      ? {
+          issuer: config.socialAuth.githubIssuer,
+          audience: config.socialAuth.githubClientId,
+          jwksUri: config.socialAuth.githubJwksUri
+        }
+      : undefined,
+  // never available in production
+  local:
+    !config.isProduction && parseLocalKeys()
+      ? {
+          issuer: 'codeniversity-local',
+          audience: 'codeniversity',
+          keys: parseLocalKeys()
+        }
+      : undefined
+};
+
+const keySetCache: {
+  [uri: string]: { keys: IJwk[]; fetchedAt: number; expiresAt: number } | undefined;
+} = {};
+
+const fetchKeySet = async (uri: string) => {
+  const response = await fetch(uri);
+
+  if (!response.ok)
+    throw new ErrorHandler('Could not fetch the identity provider keys', 502);
+
+  const { keys } = (await response.json()) as { keys: IJwk[] };
+  const maxAge = /max-age=(\d+)/.exec(response.headers.get('cache-control') || '');
+
+  keySetCache[uri] = {
+    keys,
+    fetchedAt: Date.now(),
+    expiresAt: Date.now() + (maxAge ? parseInt(maxAge[1], 10) * 1000 : defaultKeySetTtl)
+  };
+
+  return keys;
+};
+
+/**
+ * @description Find the public key that signed a token, refetching the key set
+ * once if the key is unknown as providers rotate their keys, at most every few minutes
+ */
+const getSigningKey = async (
+  provider: ISocialProvider,
+  header: JwtHeader
+): Promise<KeyObject> => {
+  const findKey = (keys: IJwk[] = []) =>
+    keys.find((key) => key.kid === header.kid);
+
+  let jwk = findKey(provider.keys);
+
+  if (!jwk && provider.jwksUri) {
+    const cached = keySetCache[provider.jwksUri];
+    const now = Date.now();
+
+    if (cached && cached.expiresAt > now) jwk = findKey(cached.keys);
+
+    const canRefetch =
+      !cached ||
+      cached.expiresAt <= now ||
+      cached.fetchedAt + minKeySetRefetchInterval <= now;
+
+    if (!jwk && canRefetch) jwk = findKey(await fetchKeySet(provider.jwksUri));
+  }
+
+  if (!jwk) throw new ErrorHandler('Unknown identity token signing key', 401);
+
+  return crypto.createPublicKey({ key: jwk, format: 'jwk' });
+};
+
+/**
+ * @description Verify the signature and claims of an identity provider's id token
+ * and return the profile of the user it identifies
+ *
+ * @throws {ErrorHandler} If the provider isn't supported (HTTP status code 422)
+ * @throws {ErrorHandler} If the token is invalid or doesn't claim its email is verified (HTTP status code 401)
+ */
+export const verifyIdToken = async (
+  providerName: string,
+  idToken: string
+): Promise<ISocialProfile> => {
+  const provider = providers[providerName];
+
+  if (!provider)
+    throw new ErrorHandler(`Unsupported social provider: ${providerName}`, 422);
+
+  const decoded = jwt.decode(idToken, { complete: true });
+
+  if (!decoded || typeof decoded.payload === 'string')
+    throw new ErrorHandler('Invalid identity token', 401);
+
+  const key = await getSigningKey(provider, decoded.header);
+
+  let claims: JwtPayload;
+
+  try {
+    claims = jwt.verify(idToken, key, {
+      algorithms: ['RS256', 'ES256'],
+      issuer: provider.issuer,
+      audience: provider.audience
+    }) as JwtPayload;
+  } catch (error: any) {
+    throw new ErrorHandler(`Invalid identity token: ${error.message}`, 401);
+  }
+
+  if (!claims.sub || !claims.email)
+    throw new ErrorHandler('Identity token has no subject or email', 401);
+
+  // accounts are found and linked by email, so a token that doesn't vouch for its email
+  // could take over the account of whoever owns it, no provider is trusted without the claim
+  if (claims.email_verified !== true && claims.email_verified !== 'true')
+    throw new ErrorHandler('Your social account email is not verified', 401);
+
+  return {
+    provider: providerName,
+    subject: claims.sub,
+    email: claims.email,
+    name: claims.name || claims.email.split('@')[0],
+    avatar: claims.picture
+  };
+};
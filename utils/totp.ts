@@ -0,0 +1,107 @@
+import crypto from 'crypto';
+import { redis } from './redis';
+
+// time-based one-time passwords (RFC 6238), compatible with authenticator apps
+const base32Alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const timeStep = 30; // seconds
+const digits = 6;
+
+const base32Encode = (buffer: Buffer) => {
+  let bits = '';
+  buffer.forEach((byte) => (bits += byte.toString(2).padStart(8, '0')));
+
+  return (bits.match(/.{1,5}/g) || [])
+    .map((chunk) => base32Alphabet[parseInt(chunk.padEnd(5, '0'), 2)])
+    .join('');
+};
+
+const base32Decode = (value: string) => {
+  const bits = value
+    .toUpperCase()
+    .replace(/=+$/, '')
+    .split('')
+    .map((char) => {
+      const index = base32Alphabet.indexOf(char);
+      if (index === -1) throw new Error('Invalid base32 secret');
+      return index.toString(2).padStart(5, '0');
+    })
+    .join('');
+
+  return Buffer.from(
+    (bits.match(/.{8}/g) || []).map((byte) => parseInt(byte, 2))
+  );
+};
+
+const hotp = (key: Buffer, counter: number) => {
+  const message = Buffer.alloc(8);
+  message.writeUInt32BE(Math.floor(counter / 2 ** 32), 0);
+  message.writeUInt32BE(counter % 2 ** 32, 4);
+
+  const hmac = crypto.createHmac('sha1', key).update(message).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return (binary % 10 ** digits).toString().padStart(digits, '0');
+};
+
+export const currentTimeStep = () => Math.floor(Date.now() / 1000 / timeStep);
+
+export const generateTotpSecret = () => base32Encode(crypto.randomBytes(20));
+
+/**
+ * @description Check a code against a secret, allowing one time step of clock drift either way
+ * @returns {number | null} The time step the code belongs to, or null if the code is invalid
+ */
+export const verifyTotp = (secret: string, code: string, window = 1) => {
+  if (!/^\d{6}$/.test(code || '')) return null;
+
+  const key = base32Decode(secret);
+  const step = currentTimeStep();
+
+  for (let i = -window; i <= window; i++) {
+    const expected = Buffer.from(hotp(key, step + i));
+
+    if (crypto.timingSafeEqual(expected, Buffer.from(code))) return step + i;
+  }
+
+  return null;
+};
+
+// set the last used time step of a user to ARGV[1] unless it is already at or past it,
+// in a single step so two requests can't both use the same code
+const claimStepScript = `
+local last = redis.call('GET', KEYS[1])
+if last and tonumber(last) >= tonumber(ARGV[1]) then return 0 end
+redis.call('SET', KEYS[1], ARGV[1], 'EX', ARGV[2])
+return 1
+`;
+
+/**
+ * @description Use up the time step of a verified code, so neither it nor an older code
+ * can be used again by the user
+ *
+ * @returns {boolean} Whether the step was not used yet
+ */
+export const claimTotpStep = async (userId: string, step: number) =>
+  // remembered for as long as the codes of the step are accepted
+  (await redis.eval(claimStepScript, 1, `2fa-step:${userId}`, step, timeStep * 4)) === 1;
+
+/**
+ * @description Build the otpauth:// URI that authenticator apps read from a QR code
+ */
+export const buildOtpAuthUrl = (
+  secret: string,
+  accountName: string,
+  issuer = 'Codeniversity'
+) => {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: digits.toString(),
+    period: timeStep.toString()
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+};